@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { CameraKeyframe, FlythroughEasings } from './config.js';
+
+// Camera flythrough along saved viewpoints. Positions and look-at targets each follow a
+// centripetal Catmull-Rom spline through the keyframes (closed into a loop when looping),
+// every keyframe-to-keyframe leg takes the same time, and the field of view blends
+// linearly along each leg.
+
+export interface Flythrough {
+    positions: THREE.CatmullRomCurve3;
+    targets: THREE.CatmullRomCurve3;
+    fovs: number[];
+    loop: boolean;
+    easing: string;
+    startTime: number;             // Animation clock time (ms) when the flight began
+    duration: number;              // Milliseconds for the whole path, or one lap when looping
+}
+
+// Needs at least two keyframes
+export function createFlythrough(
+    keyframes: CameraKeyframe[],
+    durationSeconds: number,
+    loop: boolean,
+    easing: string,
+    startTime: number = performance.now()
+): Flythrough {
+    if (keyframes.length < 2) throw new Error('A flythrough needs at least two saved viewpoints');
+    const curve = (points: THREE.Vector3[]) => new THREE.CatmullRomCurve3(points, loop, 'centripetal');
+    return {
+        positions: curve(keyframes.map(keyframe => new THREE.Vector3().fromArray(keyframe.position))),
+        targets: curve(keyframes.map(keyframe => new THREE.Vector3().fromArray(keyframe.target))),
+        fovs: keyframes.map(keyframe => keyframe.fov),
+        loop,
+        easing,
+        startTime,
+        duration: Math.max(1, durationSeconds * 1000)
+    };
+}
+
+// True once a one-way flight has reached its last keyframe
+export function isFlythroughFinished(flythrough: Flythrough, now: number = performance.now()): boolean {
+    return !flythrough.loop && now - flythrough.startTime >= flythrough.duration;
+}
+
+// Eased progress along the path from 0 to 1; loops restart (and ease) each lap
+function getFlythroughProgress(flythrough: Flythrough, now: number): number {
+    const elapsed = Math.max(0, now - flythrough.startTime) / flythrough.duration;
+    const t = flythrough.loop ? elapsed % 1 : Math.min(1, elapsed);
+    return flythrough.easing === FlythroughEasings.EASE_IN_OUT ? t * t * (3 - 2 * t) : t;
+}
+
+// Writes the camera position and target at the given clock time; returns the field of view
+export function sampleFlythrough(flythrough: Flythrough, now: number, position: THREE.Vector3, target: THREE.Vector3): number {
+    const t = getFlythroughProgress(flythrough, now);
+    // getPoint (not getPointAt) spaces the keyframes evenly in t, one leg per keyframe gap
+    flythrough.positions.getPoint(t, position);
+    flythrough.targets.getPoint(t, target);
+
+    const { fovs } = flythrough;
+    const legs = flythrough.loop ? fovs.length : fovs.length - 1;
+    const leg = Math.min(Math.floor(t * legs), legs - 1);
+    const from = fovs[leg], to = fovs[(leg + 1) % fovs.length];
+    return THREE.MathUtils.lerp(from, to, t * legs - leg);
+}
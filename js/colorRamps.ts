@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { config, ColorStop } from './config.js';
+
+// Hypsometric tinting: colour stops over the terrain's height range, baked into a
+// small texture the line and fill shaders look up by elevation.
+
+// Texels across a ramp texture; plenty for a handful of stops
+const RAMP_TEXTURE_SIZE = 256;
+
+// The height range the ramp spans, matching the contour fade range
+export function getColorRampRange(): [number, number] {
+    return [config.minTerrainHeightFactor * config.terrainMaxHeight, config.terrainMaxHeight];
+}
+
+// The active stops sorted by position, or null when tinting is off
+export function getColorRampStops(): ColorStop[] | null {
+    if (!config.useColorRamp || config.colorRampStops.length === 0) return null;
+    return [...config.colorRampStops].sort((a, b) => a.position - b.position);
+}
+
+// A ramp of a single colour, used where tinting is off
+export function flatColorRamp(color: THREE.Color | string): ColorStop[] {
+    return [{ position: 0, color: typeof color === 'string' ? color : `#${color.getHexString()}` }];
+}
+
+// Interpolates sorted stops at t in [0, 1]; blending happens in sRGB like CSS gradients
+function sampleStops(stops: ColorStop[], t: number, target: THREE.Color): THREE.Color {
+    let i = 0;
+    while (i < stops.length - 1 && stops[i + 1].position < t) i++;
+    const a = stops[i], b = stops[Math.min(i + 1, stops.length - 1)];
+    const span = b.position - a.position;
+    const k = span > 0 ? THREE.MathUtils.clamp((t - a.position) / span, 0, 1) : 0;
+    const from = new THREE.Color(a.color).getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+    const to = new THREE.Color(b.color).getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+    return target.setRGB(
+        from.r + (to.r - from.r) * k,
+        from.g + (to.g - from.g) * k,
+        from.b + (to.b - from.b) * k,
+        THREE.SRGBColorSpace
+    );
+}
+
+// Colour of a contour level: the ramp colour when tinting is on, otherwise the fallback
+export function getContourLevelColor(level: number, fallback: THREE.Color, target: THREE.Color = new THREE.Color()): THREE.Color {
+    const stops = getColorRampStops();
+    if (!stops) return target.copy(fallback);
+    const [min, max] = getColorRampRange();
+    return sampleStops(stops, max > min ? (level - min) / (max - min) : 0, target);
+}
+
+// Refills a ramp texture from the stops
+export function writeColorRampTexture(texture: THREE.DataTexture, stops: ColorStop[]): void {
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    const data = texture.image.data as Uint8Array;
+    const color = new THREE.Color();
+    const srgb = new THREE.Color();
+    for (let i = 0; i < RAMP_TEXTURE_SIZE; i++) {
+        sampleStops(sorted, i / (RAMP_TEXTURE_SIZE - 1), color).getRGB(srgb, THREE.SRGBColorSpace);
+        data[i * 4] = Math.round(srgb.r * 255);
+        data[i * 4 + 1] = Math.round(srgb.g * 255);
+        data[i * 4 + 2] = Math.round(srgb.b * 255);
+        data[i * 4 + 3] = 255;
+    }
+    texture.needsUpdate = true;
+}
+
+// Creates a 1-pixel-high ramp texture; the GPU converts its sRGB texels to linear when sampling
+export function createColorRampTexture(stops: ColorStop[]): THREE.DataTexture {
+    const texture = new THREE.DataTexture(new Uint8Array(RAMP_TEXTURE_SIZE * 4), RAMP_TEXTURE_SIZE, 1);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.wrapS = THREE.ClampToEdgeWrapping;
+    writeColorRampTexture(texture, stops);
+    return texture;
+}
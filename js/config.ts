@@ -1,8 +1,13 @@
+import type { NoiseSettings } from './terrainHeights.js';
+
+// Default lowest terrain height as a share of the maximum; randomizing varies around it
+export const DEFAULT_MIN_TERRAIN_HEIGHT_FACTOR = 0.3;
+
 // Base terrain generation parameters that can be randomized
 export const baseConfig = {
     terrainMaxHeight: 200,
     noiseScale: 110,
-    minTerrainHeightFactor: 0.3,
+    minTerrainHeightFactor: DEFAULT_MIN_TERRAIN_HEIGHT_FACTOR,
     contourInterval: 5,
 };
 
@@ -14,26 +19,196 @@ export const randomRanges = {
     enableIntervalRandomization: true
 };
 
+// Named noise setups for the Terrain Shape folder. 'Classic' is the original two-layer
+// generator expressed as fBm settings; 'Custom' in the GUI means a setting was edited.
+export const TerrainPresets: { [name: string]: NoiseSettings } = {
+    'Classic': {
+        noiseOctaves: 2, noiseLacunarity: 1 / 1.2, noiseGain: 0.03 / 0.97, noiseVariant: 'Standard',
+        warpStrength: 0, warpScale: 2, detailContrast: 0.1,
+        modulationScale: 3, modulationMin: 0.6, modulationMax: 1.4, islandFalloff: 0, terraceSteps: 0
+    },
+    'Rolling Hills': {
+        noiseOctaves: 4, noiseLacunarity: 2, noiseGain: 0.35, noiseVariant: 'Standard',
+        warpStrength: 0.2, warpScale: 2, detailContrast: 0,
+        modulationScale: 4, modulationMin: 0.7, modulationMax: 1.1, islandFalloff: 0, terraceSteps: 0
+    },
+    'Alpine Ridges': {
+        noiseOctaves: 5, noiseLacunarity: 2.1, noiseGain: 0.5, noiseVariant: 'Ridged',
+        warpStrength: 0.3, warpScale: 1.5, detailContrast: 0,
+        modulationScale: 3, modulationMin: 0.5, modulationMax: 1.5, islandFalloff: 0, terraceSteps: 0
+    },
+    'Mesas': {
+        noiseOctaves: 3, noiseLacunarity: 2, noiseGain: 0.4, noiseVariant: 'Billow',
+        warpStrength: 0.15, warpScale: 2, detailContrast: 0,
+        modulationScale: 3, modulationMin: 0.8, modulationMax: 1.2, islandFalloff: 0, terraceSteps: 4
+    },
+    'Dunes': {
+        noiseOctaves: 3, noiseLacunarity: 2.5, noiseGain: 0.3, noiseVariant: 'Ridged',
+        warpStrength: 0.6, warpScale: 0.8, detailContrast: 0,
+        modulationScale: 5, modulationMin: 0.7, modulationMax: 1.0, islandFalloff: 0, terraceSteps: 0
+    },
+    'Islands': {
+        noiseOctaves: 5, noiseLacunarity: 2, noiseGain: 0.45, noiseVariant: 'Standard',
+        warpStrength: 0.25, warpScale: 2, detailContrast: 0,
+        modulationScale: 3, modulationMin: 0.6, modulationMax: 1.4, islandFalloff: 0.6, terraceSteps: 0
+    }
+};
+
 export const Styles = {
     FILLED_MOUNTAIN: 'Filled Mountain',
     LINES_ONLY: 'Lines Only',
     FADING_LINES: 'Fading Lines'
 };
 
+// Font families offered for contour labels
+export const LabelFonts = ['sans-serif', 'serif', 'monospace', 'Georgia', 'Helvetica'];
+export const LabelUnits = ['m', 'ft'];
+
+// Shading applied over the filled style
+export const ShadeModes = {
+    OFF: 'Off',
+    HILLSHADE: 'Hillshade',  // Lambert light from the sun direction, multiplied over the fill
+    SLOPE: 'Slope'           // Darkens by slope angle regardless of the sun
+};
+
+export const RecordingFormats = {
+    WEBM: 'WebM',               // Real time, from the canvas through MediaRecorder
+    PNG_SEQUENCE: 'PNG Sequence' // Frame by frame on a fixed timestep, zipped
+};
+
+// 'Window' records at the canvas size on screen
+export const RecordingResolutions = ['Window', '1280x720', '1920x1080', '1080x1080', '1080x1920', '3840x2160'];
+
+export const PrintSizeModes = {
+    PIXELS: 'Pixels',
+    PAPER: 'Paper'              // A-series sheet at printDpi
+};
+
+// A-series paper sizes in millimetres, portrait
+export const PaperSizes: { [name: string]: [number, number] } = {
+    A0: [841, 1189],
+    A1: [594, 841],
+    A2: [420, 594],
+    A3: [297, 420],
+    A4: [210, 297],
+    A5: [148, 210]
+};
+
+export const PaperOrientations = ['Landscape', 'Portrait'];
+
+// Line effects around the hovered point, applied in the line vertex shaders
+export const HoverEffects = {
+    OFF: 'Off',
+    WIGGLE: 'Wiggle',               // Waves and noise shake the lines up and down
+    RIPPLE: 'Ripple Rings',         // Rings travel outwards from the cursor
+    MAGNETIC: 'Magnetic Pull',      // Lines bend in towards the cursor
+    LIFT: 'Lift & Glow'             // Lines rise and brighten under the cursor
+};
+
+export const SculptTools = {
+    OFF: 'Off',                     // Left drag orbits as usual
+    RAISE: 'Raise',
+    LOWER: 'Lower',
+    SMOOTH: 'Smooth',               // Evens out bumps towards the neighbouring heights
+    FLATTEN: 'Flatten',             // Levels towards the height where the stroke began
+    NOISE: 'Noise Stamp'            // Adds rough noise detail
+};
+
+export const CameraModes = {
+    PERSPECTIVE: 'Perspective',     // Orbit around the target
+    MAP: 'Top-Down Map'             // Orthographic plan view with pan and zoom
+};
+
+export const MeshExportFormats = {
+    GLTF: 'glTF (.glb)',        // Surface plus contour lines
+    STL: 'STL',                 // Closed solid for 3D printing
+    OBJ: 'OBJ'
+};
+
+export const FlythroughEasings = {
+    LINEAR: 'Linear',
+    EASE_IN_OUT: 'Ease In-Out'      // Starts and stops gently (each lap, when looping)
+};
+
+// A saved camera viewpoint for flythroughs
+export interface CameraKeyframe {
+    name: string;
+    position: [number, number, number];
+    target: [number, number, number];
+    fov: number;
+}
+
+// Height-to-colour stop: position runs 0 (lowest terrain) to 1 (highest)
+export interface ColorStop {
+    position: number;
+    color: string;
+}
+
+// Built-in hypsometric palettes; 'Custom' in the GUI means the stops were edited by hand
+export const ColorRampPresets: { [name: string]: ColorStop[] } = {
+    'Classic': [
+        { position: 0.0, color: '#4f7942' },
+        { position: 0.3, color: '#a3b86c' },
+        { position: 0.55, color: '#d2b48c' },
+        { position: 0.75, color: '#8b5a2b' },
+        { position: 0.9, color: '#d8d0c8' },
+        { position: 1.0, color: '#ffffff' }
+    ],
+    'Bathymetric': [
+        { position: 0.0, color: '#08306b' },
+        { position: 0.35, color: '#2171b5' },
+        { position: 0.7, color: '#6baed6' },
+        { position: 1.0, color: '#deebf7' }
+    ],
+    'Monochrome': [
+        { position: 0.0, color: '#2b2b2b' },
+        { position: 1.0, color: '#f0f0f0' }
+    ]
+};
+
 // Main scene configuration with derived/visual settings
 export const config = {
+    seed: 1,                    // Drives terrain noise, randomized settings and colours
+
     terrainSize: 1500,
     terrainSegments: 200,
     terrainMaxHeight: baseConfig.terrainMaxHeight,
     noiseScale: baseConfig.noiseScale,
     minTerrainHeightFactor: baseConfig.minTerrainHeightFactor,
     plateauVolume: 0.0,
+    hydraulicErosion: false,    // Rain droplets carve valleys and drainage channels
+    erosionDroplets: 40000,
+    erosionRain: 1.0,
+    erosionStrength: 0.3,
+    thermalErosion: false,      // Steep slopes shed material until below the talus angle
+    thermalPasses: 20,
+    talusAngle: 35,
+    terrainPreset: 'Classic',   // Name in TerrainPresets, or 'Custom'
+    ...TerrainPresets['Classic'],
 
     contourInterval: baseConfig.contourInterval,
     contourColor: '#f5b7bc',
     backgroundColor: '#f2e5ea',
     lineOpacity: 1.0,
     fillOpacity: 0.4,
+    lineWidth: 1.5,             // Screen-space line width in CSS pixels
+    indexLineWidth: 3,
+    useColorRamp: false,        // Colour fill and lines by elevation instead of flat colours
+    colorRamp: 'Classic',       // Preset the stops came from, or 'Custom'
+    colorRampStops: ColorRampPresets['Classic'].map(stop => ({ ...stop })),
+    colorRampStepped: true,     // Flat bands between contour levels instead of a smooth gradient
+    shadeMode: ShadeModes.OFF,
+    sunAzimuth: 315,            // Degrees clockwise from north (-Z), cartographic default is northwest
+    sunAltitude: 45,            // Degrees above the horizon
+    shadeStrength: 0.7,         // 0 = no shading, 1 = full shading
+    indexContourPeriod: 5,      // Every Nth level is a heavier index contour (0 = off)
+    indexContourColor: '#d9707c',
+    indexContourOpacity: 1.0,
+    showContourLabels: false,
+    labelSpacing: 400,          // World distance between labels along a line
+    labelSize: 14,              // World-space text height
+    labelFont: 'sans-serif',
+    labelUnits: 'm',            // 'm' or 'ft'; terrain heights are treated as metres
 
     minFadeDistance: 500,
     maxFadeDistance: 640,
@@ -42,11 +217,83 @@ export const config = {
     minZoomDistance: 380,
     maxZoomDistance: 740,
     enableZoom: true,
+    cameraMode: CameraModes.PERSPECTIVE,
+    cameraFov: 65,              // Perspective field of view (degrees, vertical)
     enableRotate: true,
+    enablePan: false,           // Lets the orbit target move, so viewpoints can look at any spot
+    autoRotate: false,          // Turntable: orbit slowly on its own
+    autoRotateSpeed: 1,         // 1 = one turn a minute
+    cameraKeyframes: [] as CameraKeyframe[],
+    flythroughDuration: 20,     // Seconds for the whole path (one lap when looping)
+    flythroughEasing: FlythroughEasings.EASE_IN_OUT,
+    flythroughLoop: false,
     enableVerticalRotate: false,
     fixedVerticalAngle: Math.PI / 3,
     cameraMinPitchAngle: 0.1,   // Minimum angle above horizon (radians)
 
+    morphDuration: 2,           // Seconds a new random landscape takes to morph in (0 = instant)
+    autoCycle: false,           // Generate a new landscape every autoCycleInterval seconds
+    autoCycleInterval: 20,
+    breathing: false,           // Slowly evolve the height field so the contours flow
+    breathingSpeed: 0.05,       // Noise time units per second
+    driftSpeed: 4,              // World units per second the noise domain drifts
+    driftDirection: 30,         // Degrees from +x towards +z
+    breathingBudgetMs: 40,      // Target turnaround per animated update; resolution adapts to meet it
+    breathingTime: 0,           // How far the breathing has moved along the noise's third axis
+    breathingDriftX: 0,         // How far the noise domain has drifted, in world units
+    breathingDriftZ: 0,
+
+    recordFormat: RecordingFormats.WEBM,
+    recordDuration: 10,         // Seconds
+    recordFps: 30,
+    recordResolution: 'Window', // One of RecordingResolutions
+    recordOrbit: true,          // Circle the camera around the orbit target while recording
+    recordOrbitDegrees: 360,    // How far the camera travels over the whole recording
+    recordTransparent: false,   // Leave the background out, as Export PNG does
+
+    printSizeMode: PrintSizeModes.PIXELS,
+    printWidth: 7680,           // Pixels (the 8K default)
+    printHeight: 4320,
+    printPaper: 'A3',           // One of PaperSizes
+    printOrientation: 'Landscape',
+    printDpi: 300,              // Paper resolution; also converts the margin and is stored in the PNG
+    printMargin: 0,             // Millimetres
+    printTitleBlock: false,     // Title and contour interval under the map
+    printTitle: 'Topographic Map',
+    printTransparent: false,
+
+    hoverEffect: HoverEffects.WIGGLE,
+    hoverAmplitude: 13,         // World units of displacement at the cursor
+    hoverRadius: 40,            // Falloff radius (world units)
+    hoverSpeed: 1,              // Animation speed multiplier
+    wiggleWaveFrequency: 0.1,   // Radians per world unit along x + z
+    wiggleNoiseFrequency: 0.15,
+    rippleWavelength: 20,       // World units between rings
+    magneticStrength: 0.5,      // Share of the distance to the cursor lines move at its centre
+    liftGlowColor: '#ffffff',
+    liftGlow: 0.6,              // How far lines blend to the glow colour at the cursor
+
+    sculptTool: SculptTools.OFF,
+    sculptRadius: 25,           // World units
+    sculptStrength: 0.3,        // 0-1; see sculpt.ts for what it means per tool
+    sculptFalloff: 0.6,         // Outer share of the radius the brush fades over (0 = hard edge)
+
+    probeMode: false,           // Inspector: readout at the cursor, highlighted level, click to pin
+    probeHighlightColor: '#ff4f2e',
+
+    originEasting: 0,           // Real-world position (m) of the terrain's south-west corner in data exports
+    originNorthing: 0,
+    metresPerUnit: 1,           // Metres per world unit, so the exported extent is terrainSize × this
+
+    meshExportFormat: MeshExportFormats.STL,
+    meshSizeMm: 150,            // Model width and depth
+    meshExaggeration: 1,        // Vertical exaggeration
+    meshBaseMm: 5,              // Solid base under the lowest point (STL/OBJ)
+    meshTerraces: false,        // Snap heights down to contourInterval steps for a stacked-layer model
+
+    livePreview: true,          // Rebuild at low resolution while dragging sliders
+    previewBudgetMs: 50,        // Target turnaround for a preview; resolution adapts to meet it
+
     showTerrainBorder: false,
     style: Styles.FADING_LINES // Default style
 };
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { config, Styles } from './config.js';
+import { ContourPolyline } from './contours.js';
+
+// Elevation labels placed along contour lines. Labels sit on straight-enough stretches
+// of a polyline, the line is cut where a label goes, and the text is drawn as sprites
+// that turn each frame to follow the line on screen (see updateContourLabelRotations).
+
+export interface ContourLabel {
+    level: number;
+    text: string;
+    position: [number, number, number]; // World-space centre on the line
+    direction: [number, number];        // Unit tangent of the line in the XZ plane
+    width: number;                      // World-space text width
+}
+
+// Most a line may turn (radians, summed) under a label before the spot is rejected
+const MAX_LABEL_TURN = 0.5;
+// Font size the label textures are rasterised at
+const TEXTURE_FONT_PX = 64;
+const FEET_PER_METRE = 3.28084;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function labelFont(px: number): string {
+    return `${px}px ${config.labelFont}`;
+}
+
+// World-space width of a label's text at config.labelSize
+function measureLabelWidth(text: string): number {
+    if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+    if (!measureContext) return text.length * config.labelSize * 0.6;
+    measureContext.font = labelFont(TEXTURE_FONT_PX);
+    return measureContext.measureText(text).width / TEXTURE_FONT_PX * config.labelSize;
+}
+
+// Formats an elevation (in metres) in the configured units
+export function formatElevation(elevation: number): string {
+    const value = config.labelUnits === 'ft' ? elevation * FEET_PER_METRE : elevation;
+    return `${Math.round(value)} ${config.labelUnits}`;
+}
+
+// Cumulative XZ arc length at each point; closed lines repeat the first point at the end
+function arcLengths(points: Float32Array, closed: boolean): { coords: Float32Array, lengths: Float32Array } {
+    const coords = closed ? new Float32Array(points.length + 3) : points;
+    if (closed) {
+        coords.set(points);
+        coords.set(points.subarray(0, 3), points.length);
+    }
+    const count = coords.length / 3;
+    const lengths = new Float32Array(count);
+    for (let i = 1; i < count; i++) {
+        lengths[i] = lengths[i - 1] + Math.hypot(coords[i * 3] - coords[i * 3 - 3], coords[i * 3 + 2] - coords[i * 3 - 1]);
+    }
+    return { coords, lengths };
+}
+
+// Index of the segment containing arc length s
+function segmentAt(lengths: Float32Array, s: number): number {
+    let i = 1;
+    while (i < lengths.length - 1 && lengths[i] < s) i++;
+    return i - 1;
+}
+
+// Point at arc length s
+function pointAt(coords: Float32Array, lengths: Float32Array, s: number): [number, number, number] {
+    const i = segmentAt(lengths, s);
+    const span = lengths[i + 1] - lengths[i];
+    const t = span > 0 ? (s - lengths[i]) / span : 0;
+    return [
+        coords[i * 3] + (coords[i * 3 + 3] - coords[i * 3]) * t,
+        coords[i * 3 + 1] + (coords[i * 3 + 4] - coords[i * 3 + 1]) * t,
+        coords[i * 3 + 2] + (coords[i * 3 + 5] - coords[i * 3 + 2]) * t
+    ];
+}
+
+// Total heading change of the line between arc lengths start and end
+function turningBetween(coords: Float32Array, lengths: Float32Array, start: number, end: number): number {
+    let turn = 0;
+    let previousHeading: number | null = null;
+    for (let i = segmentAt(lengths, start); i < lengths.length - 1 && lengths[i] < end; i++) {
+        const dx = coords[i * 3 + 3] - coords[i * 3], dz = coords[i * 3 + 5] - coords[i * 3 + 2];
+        if (dx === 0 && dz === 0) continue;
+        const heading = Math.atan2(dz, dx);
+        if (previousHeading !== null) {
+            let delta = Math.abs(heading - previousHeading);
+            if (delta > Math.PI) delta = 2 * Math.PI - delta;
+            turn += delta;
+        }
+        previousHeading = heading;
+    }
+    return turn;
+}
+
+// Splits a line into open pieces that leave out the given arc-length ranges
+function cutGaps(coords: Float32Array, lengths: Float32Array, level: number, gaps: [number, number][]): ContourPolyline[] {
+    const pieces: ContourPolyline[] = [];
+    const total = lengths[lengths.length - 1];
+    let start = 0;
+    for (const [gapStart, gapEnd] of [...gaps, [total, total] as [number, number]]) {
+        if (gapStart > start) {
+            const piece: number[] = [...pointAt(coords, lengths, start)];
+            for (let i = 0; i < lengths.length; i++) {
+                if (lengths[i] > start && lengths[i] < gapStart) piece.push(coords[i * 3], coords[i * 3 + 1], coords[i * 3 + 2]);
+            }
+            piece.push(...pointAt(coords, lengths, gapStart));
+            pieces.push({ level, closed: false, points: new Float32Array(piece) });
+        }
+        start = gapEnd;
+    }
+    return pieces;
+}
+
+// Places labels every config.labelSpacing along the level's lines, skipping short or
+// tightly curved stretches and spots crowding a label already in `placed`. Returns the
+// labels and the lines with gaps cut where the labels go.
+export function placeContourLabels(
+    polylines: ContourPolyline[],
+    level: number,
+    text: string,
+    placed: ContourLabel[]
+): { labels: ContourLabel[], polylines: ContourPolyline[] } {
+    const width = measureLabelWidth(text);
+    const halfGap = width / 2 + config.labelSize * 0.3;
+    const spacing = Math.max(config.labelSpacing, halfGap * 4);
+    const labels: ContourLabel[] = [];
+    const drawn: ContourPolyline[] = [];
+
+    for (const polyline of polylines) {
+        const { coords, lengths } = arcLengths(polyline.points, polyline.closed);
+        const total = lengths[lengths.length - 1];
+        const gaps: [number, number][] = [];
+
+        // Short lines get no label; longer ones are tried at evenly spaced spots, nudged
+        // along a little when the first spot is too curved
+        if (total >= halfGap * 4) {
+            for (let s = Math.min(spacing / 2, total / 2); s + halfGap <= total; s += spacing) {
+                for (let nudge = 0; nudge < spacing / 2; nudge += halfGap) {
+                    const centre = s + nudge;
+                    if (centre - halfGap < 0 || centre + halfGap > total) break;
+                    if (turningBetween(coords, lengths, centre - halfGap, centre + halfGap) > MAX_LABEL_TURN) continue;
+
+                    const position = pointAt(coords, lengths, centre);
+                    const crowded = placed.some(other =>
+                        Math.hypot(other.position[0] - position[0], other.position[2] - position[2]) < (other.width + width) / 2 + config.labelSize);
+                    if (crowded) continue;
+
+                    const a = pointAt(coords, lengths, centre - halfGap);
+                    const b = pointAt(coords, lengths, centre + halfGap);
+                    const length = Math.hypot(b[0] - a[0], b[2] - a[2]) || 1;
+                    const label: ContourLabel = { level, text, position, direction: [(b[0] - a[0]) / length, (b[2] - a[2]) / length], width };
+                    labels.push(label);
+                    placed.push(label);
+                    gaps.push([centre - halfGap, centre + halfGap]);
+                    s = centre; // Keep the spacing from the label actually placed
+                    break;
+                }
+            }
+        }
+
+        if (gaps.length > 0) {
+            drawn.push(...cutGaps(coords, lengths, level, gaps));
+        } else {
+            drawn.push(polyline);
+        }
+    }
+    return { labels, polylines: drawn };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    if (edge0 === edge1) return x < edge0 ? 0 : 1;
+    const t = THREE.MathUtils.clamp((x - edge0) / (edge1 - edge0), 0, 1);
+    return t * t * (3 - 2 * t);
+}
+
+// Opacity of a label under the fading-lines style, matching lineFadeFragment.glsl
+function fadedOpacity(label: ContourLabel, opacity: number): number {
+    if (config.style !== Styles.FADING_LINES) return opacity;
+    const halfSize = config.terrainSize / 2;
+    const heightFade = smoothstep(config.minTerrainHeightFactor * config.terrainMaxHeight, config.terrainMaxHeight, label.position[1]);
+    const edgeFade = smoothstep(halfSize * (1 - config.fogIntensity), halfSize, Math.hypot(label.position[0], label.position[2]));
+    return heightFade * opacity * (1 - edgeFade);
+}
+
+// Renders the label text into a texture just large enough to hold it
+function createLabelTexture(text: string, color: THREE.Color): { texture: THREE.CanvasTexture, aspect: number } {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d')!;
+    context.font = labelFont(TEXTURE_FONT_PX);
+    canvas.width = Math.ceil(context.measureText(text).width) + 8;
+    canvas.height = Math.ceil(TEXTURE_FONT_PX * 1.3);
+    context.font = labelFont(TEXTURE_FONT_PX); // Resizing the canvas resets its state
+    context.fillStyle = `#${color.getHexString()}`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return { texture, aspect: canvas.width / canvas.height };
+}
+
+// Creates one sprite per label; textures are shared between labels with the same text and colour
+export function createLabelSprites(labels: ContourLabel[], color: THREE.Color, opacity: number): THREE.Sprite[] {
+    const textures = new Map<string, { texture: THREE.CanvasTexture, aspect: number }>();
+    return labels.map(label => {
+        let entry = textures.get(label.text);
+        if (!entry) {
+            entry = createLabelTexture(label.text, color);
+            textures.set(label.text, entry);
+        }
+        const material = new THREE.SpriteMaterial({
+            map: entry.texture,
+            transparent: true,
+            opacity: fadedOpacity(label, opacity),
+            depthWrite: false
+        });
+        const sprite = new THREE.Sprite(material);
+        sprite.position.fromArray(label.position);
+        // The texture is taller than the glyphs, so scale by its height rather than the font size
+        const height = config.labelSize * 1.3;
+        sprite.scale.set(height * entry.aspect, height, 1);
+        sprite.userData.label = label;
+        return sprite;
+    });
+}
+
+// Screen-space angle of a label's line, flipped so the text never reads upside down
+export function screenAngle(label: ContourLabel, project: (x: number, y: number, z: number) => [number, number]): number {
+    const [x, y, z] = label.position;
+    const [dx, dz] = label.direction;
+    const a = project(x - dx, y, z - dz);
+    const b = project(x + dx, y, z + dz);
+    let angle = Math.atan2(b[1] - a[1], b[0] - a[0]);
+    if (angle > Math.PI / 2) angle -= Math.PI;
+    if (angle < -Math.PI / 2) angle += Math.PI;
+    return angle;
+}
+
+const projected = new THREE.Vector3();
+
+// Turns every label sprite in the group to run along its line as seen from the camera
+export function updateContourLabelRotations(group: THREE.Group, camera: THREE.Camera, width: number, height: number): void {
+    // Pixel coordinates with y up, which is the sense sprite rotation uses
+    const project = (x: number, y: number, z: number): [number, number] => {
+        projected.set(x, y, z).project(camera);
+        return [projected.x * width / 2, projected.y * height / 2];
+    };
+    for (const child of group.children) {
+        const label: ContourLabel | undefined = child.userData.label;
+        if (!label) continue;
+        ((child as THREE.Sprite).material as THREE.SpriteMaterial).rotation = screenAngle(label, project);
+    }
+}
+
+// Disposes the sprites' materials and textures and empties the group
+export function clearLabelSprites(group: THREE.Group): void {
+    const textures = new Set<THREE.Texture>();
+    while (group.children.length > 0) {
+        const sprite = group.children[0] as THREE.Sprite;
+        if (sprite.material.map) textures.add(sprite.material.map);
+        sprite.material.dispose();
+        group.remove(sprite);
+    }
+    textures.forEach(texture => texture.dispose());
+}
@@ -0,0 +1,235 @@
+import { ProgressTask, runToCompletion } from './incremental.js';
+
+// Contour extraction over the indexed terrain triangle grid.
+// Every crossing point is keyed by the mesh edge it lies on, so the two triangles
+// sharing an edge produce the exact same (welded) point and segments can be
+// stitched into ordered polylines marching-squares style.
+
+// One continuous contour line at a single elevation
+export interface ContourPolyline {
+    level: number;
+    closed: boolean;     // Last point connects back to the first
+    points: Float32Array; // Ordered xyz triples
+}
+
+export interface ContourOptions {
+    interval: number;
+    maxHeight: number;
+    minHeightFactor: number;
+}
+
+interface LevelData {
+    level: number;
+    pointIndex: Map<number, number>; // Edge key -> index into coords
+    coords: number[];
+    segments: number[];              // Pairs of edge keys
+}
+
+// Returns the contour levels a triangle spanning [minY, maxY] crosses, as multiples of the interval
+function levelSteps(minY: number, maxY: number, options: ContourOptions): [number, number] {
+    const { interval, maxHeight, minHeightFactor } = options;
+    let first = Math.ceil(minY / interval);
+    let last = Math.floor(maxY / interval);
+    // Levels at or above maxHeight are never drawn
+    if (last * interval >= maxHeight) last = Math.ceil(maxHeight / interval) - 1;
+    const minLevel = minHeightFactor > 0 ? minHeightFactor * maxHeight : 0;
+    while (first <= last && (first * interval < minLevel || first * interval <= 0)) first++;
+    return [first, last];
+}
+
+// Triangles processed between progress updates
+const TRIANGLES_PER_STEP = 4096;
+
+// Finds every contour crossing in the mesh and stitches them into polylines, sorted by level
+export function extractContourPolylines(
+    positions: ArrayLike<number>,
+    index: ArrayLike<number>,
+    options: ContourOptions
+): ContourPolyline[] {
+    return runToCompletion(extractContourPolylinesTask(positions, index, options));
+}
+
+// Incremental form of extractContourPolylines that yields progress as it scans triangles
+export function* extractContourPolylinesTask(
+    positions: ArrayLike<number>,
+    index: ArrayLike<number>,
+    options: ContourOptions
+): ProgressTask<ContourPolyline[]> {
+    const levels = new Map<number, LevelData>();
+    const vertexCount = positions.length / 3;
+    if (!(options.interval > 0)) return [];
+
+    // Adds the welded crossing point on edge (a, b) at height h and returns its key
+    const addPoint = (data: LevelData, a: number, b: number): number => {
+        const lo = Math.min(a, b), hi = Math.max(a, b);
+        const key = lo * vertexCount + hi;
+        if (!data.pointIndex.has(key)) {
+            // Interpolate from the lower index so both neighbouring triangles agree bit for bit
+            const y1 = positions[lo * 3 + 1], y2 = positions[hi * 3 + 1];
+            const t = (data.level - y1) / (y2 - y1);
+            data.pointIndex.set(key, data.coords.length / 3);
+            data.coords.push(
+                positions[lo * 3] + (positions[hi * 3] - positions[lo * 3]) * t,
+                data.level,
+                positions[lo * 3 + 2] + (positions[hi * 3 + 2] - positions[lo * 3 + 2]) * t
+            );
+        }
+        return key;
+    };
+
+    const crosses = (ya: number, yb: number, h: number) => !((ya < h && yb < h) || (ya >= h && yb >= h));
+
+    for (let i = 0; i < index.length; i += 3) {
+        const i1 = index[i], i2 = index[i + 1], i3 = index[i + 2];
+        const y1 = positions[i1 * 3 + 1], y2 = positions[i2 * 3 + 1], y3 = positions[i3 * 3 + 1];
+        const [first, last] = levelSteps(Math.min(y1, y2, y3), Math.max(y1, y2, y3), options);
+
+        for (let step = first; step <= last; step++) {
+            const h = step * options.interval;
+            let data = levels.get(step);
+            if (!data) {
+                data = { level: h, pointIndex: new Map(), coords: [], segments: [] };
+                levels.set(step, data);
+            }
+            // A plane cuts a triangle through exactly zero or two of its edges
+            const keys: number[] = [];
+            if (crosses(y1, y2, h)) keys.push(addPoint(data, i1, i2));
+            if (crosses(y2, y3, h)) keys.push(addPoint(data, i2, i3));
+            if (crosses(y3, y1, h)) keys.push(addPoint(data, i3, i1));
+            if (keys.length === 2) data.segments.push(keys[0], keys[1]);
+        }
+
+        if ((i / 3 + 1) % TRIANGLES_PER_STEP === 0) yield i / index.length;
+    }
+
+    const polylines: ContourPolyline[] = [];
+    [...levels.keys()].sort((a, b) => a - b).forEach(step => {
+        polylines.push(...chainLevel(levels.get(step)!));
+    });
+    return polylines;
+}
+
+// Walks the segments of one level into open chains first, then closed loops
+function chainLevel(data: LevelData): ContourPolyline[] {
+    const segmentCount = data.segments.length / 2;
+    const used = new Uint8Array(segmentCount);
+    // Each mesh edge is shared by at most two triangles, so at most two segments meet at a point
+    const adjacency = new Map<number, number[]>();
+    for (let s = 0; s < segmentCount; s++) {
+        for (const key of [data.segments[s * 2], data.segments[s * 2 + 1]]) {
+            const list = adjacency.get(key);
+            if (list) list.push(s); else adjacency.set(key, [s]);
+        }
+    }
+
+    const toPolyline = (keys: number[], closed: boolean): ContourPolyline => {
+        const points = new Float32Array(keys.length * 3);
+        keys.forEach((key, i) => {
+            const p = data.pointIndex.get(key)! * 3;
+            points[i * 3] = data.coords[p];
+            points[i * 3 + 1] = data.coords[p + 1];
+            points[i * 3 + 2] = data.coords[p + 2];
+        });
+        return { level: data.level, closed, points };
+    };
+
+    const walk = (startKey: number, startSegment: number): ContourPolyline => {
+        const keys = [startKey];
+        let key = startKey;
+        let segment: number | undefined = startSegment;
+        while (segment !== undefined) {
+            used[segment] = 1;
+            const a = data.segments[segment * 2], b = data.segments[segment * 2 + 1];
+            key = a === key ? b : a;
+            if (key === startKey) return toPolyline(keys, true);
+            keys.push(key);
+            segment = adjacency.get(key)!.find(s => !used[s]);
+        }
+        return toPolyline(keys, false);
+    };
+
+    const result: ContourPolyline[] = [];
+    // Open chains start at points with a single segment (the terrain border)
+    adjacency.forEach((segments, key) => {
+        if (segments.length === 1 && !used[segments[0]]) result.push(walk(key, segments[0]));
+    });
+    for (let s = 0; s < segmentCount; s++) {
+        if (!used[s]) result.push(walk(data.segments[s * 2], s));
+    }
+    return result;
+}
+
+// Converts polylines to flat xyz pairs for LineSegmentsGeometry.setPositions
+export function polylinesToSegments(polylines: ContourPolyline[]): number[] {
+    const out: number[] = [];
+    for (const { points, closed } of polylines) {
+        const count = points.length / 3;
+        const segmentCount = closed ? count : count - 1;
+        for (let i = 0; i < segmentCount; i++) {
+            const a = i * 3, b = ((i + 1) % count) * 3;
+            out.push(points[a], points[a + 1], points[a + 2], points[b], points[b + 1], points[b + 2]);
+        }
+    }
+    return out;
+}
+
+// Grid cells per side of a contour tile
+const TILE_CELLS = 32;
+
+// Contours cached per square tile of grid cells, so a local height edit only rescans the
+// tiles it touches. Lines break at tile edges; a full extraction stitches them again.
+export interface ContourTiles {
+    positions: ArrayLike<number>;     // Live heights, read on every update
+    segments: number;                 // Grid cells per side
+    tilesPerSide: number;
+    options: ContourOptions;
+    indices: Uint32Array[];           // Triangle indices of each tile, row-major
+    polylines: ContourPolyline[][];   // Current lines of each tile
+}
+
+// Splits a PlaneGeometry-style grid (two triangles per cell, cells row by row) into tiles
+// and extracts the contours of each
+export function createContourTiles(
+    positions: ArrayLike<number>,
+    index: ArrayLike<number>,
+    segments: number,
+    options: ContourOptions
+): ContourTiles {
+    const tilesPerSide = Math.ceil(segments / TILE_CELLS);
+    const indices: Uint32Array[] = [];
+    for (let tileRow = 0; tileRow < tilesPerSide; tileRow++) {
+        for (let tileCol = 0; tileCol < tilesPerSide; tileCol++) {
+            const rowStart = tileRow * TILE_CELLS, rowEnd = Math.min(segments, rowStart + TILE_CELLS);
+            const colStart = tileCol * TILE_CELLS, colEnd = Math.min(segments, colStart + TILE_CELLS);
+            const tile = new Uint32Array((rowEnd - rowStart) * (colEnd - colStart) * 6);
+            let offset = 0;
+            for (let row = rowStart; row < rowEnd; row++) {
+                for (let col = colStart; col < colEnd; col++) {
+                    const cell = (row * segments + col) * 6;
+                    for (let k = 0; k < 6; k++) tile[offset++] = index[cell + k];
+                }
+            }
+            indices.push(tile);
+        }
+    }
+    const tiles: ContourTiles = { positions, segments, tilesPerSide, options, indices, polylines: [] };
+    tiles.polylines = indices.map(tile => extractContourPolylines(positions, tile, options));
+    return tiles;
+}
+
+// Re-extracts the tiles overlapping a range of grid cells (inclusive)
+export function updateContourTiles(tiles: ContourTiles, minCol: number, minRow: number, maxCol: number, maxRow: number): void {
+    const last = tiles.tilesPerSide - 1;
+    const clampTile = (cell: number) => Math.max(0, Math.min(last, Math.floor(cell / TILE_CELLS)));
+    for (let tileRow = clampTile(minRow); tileRow <= clampTile(maxRow); tileRow++) {
+        for (let tileCol = clampTile(minCol); tileCol <= clampTile(maxCol); tileCol++) {
+            const i = tileRow * tiles.tilesPerSide + tileCol;
+            tiles.polylines[i] = extractContourPolylines(tiles.positions, tiles.indices[i], tiles.options);
+        }
+    }
+}
+
+// Every tile's lines, sorted by level like extractContourPolylines
+export function getContourTilePolylines(tiles: ContourTiles): ContourPolyline[] {
+    return tiles.polylines.flat().sort((a, b) => a.level - b.level);
+}
@@ -0,0 +1,269 @@
+import * as THREE from 'three';
+import { config } from './config.js';
+import { ContourPolyline } from './contours.js';
+
+// Contour data exports for GIS and CAD. Lines come from the stitched polylines on each
+// level (not the gapped copies drawn around labels) and are mapped to real-world
+// coordinates: the terrain's south-west corner sits at the configured origin and one
+// world unit is config.metresPerUnit metres, with north along -z.
+
+interface ContourLevel {
+    elevation: number;
+    isIndex: boolean;
+    polylines: ContourPolyline[];
+}
+
+// Collects the levels in ascending order, converting heights with toElevation (as labels do)
+function collectLevels(group: THREE.Group, toElevation: (height: number) => number): ContourLevel[] {
+    const levels: ContourLevel[] = [];
+    for (const child of group.children) {
+        const polylines: ContourPolyline[] | undefined = child.userData.polylines;
+        if (!polylines || polylines.length === 0) continue;
+        levels.push({ elevation: toElevation(child.userData.height), isIndex: !!child.userData.isIndex, polylines });
+    }
+    return levels.sort((a, b) => a.elevation - b.elevation);
+}
+
+// Easting/northing in metres of a world-space point
+export function toProjected(x: number, z: number): [number, number] {
+    const half = config.terrainSize / 2;
+    return [
+        config.originEasting + (x + half) * config.metresPerUnit,
+        config.originNorthing + (half - z) * config.metresPerUnit
+    ];
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+// Projected coordinates of a polyline; closed loops repeat their first point when requested
+function projectPolyline(polyline: ContourPolyline, closeLoop: boolean): [number, number][] {
+    const { points } = polyline;
+    const coordinates: [number, number][] = [];
+    for (let i = 0; i < points.length; i += 3) coordinates.push(toProjected(points[i], points[i + 2]));
+    if (closeLoop && polyline.closed && coordinates.length > 0) coordinates.push(coordinates[0]);
+    return coordinates;
+}
+
+// Builds a GeoJSON FeatureCollection with one feature per level: a LineString for a single
+// line, otherwise a MultiLineString. Coordinates carry the elevation as their third value
+// and are projected metres, so the GIS needs the matching CRS assigned on import.
+export function buildContourGeoJSON(group: THREE.Group, toElevation: (height: number) => number): string {
+    const features = collectLevels(group, toElevation).map(level => {
+        const elevation = round(level.elevation, 3);
+        const lines = level.polylines.map(polyline =>
+            projectPolyline(polyline, true).map(([x, y]) => [round(x, 3), round(y, 3), elevation]));
+        return {
+            type: 'Feature',
+            geometry: lines.length === 1
+                ? { type: 'LineString', coordinates: lines[0] }
+                : { type: 'MultiLineString', coordinates: lines },
+            properties: { elevation, index: level.isIndex }
+        };
+    });
+    return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+// Layer name for a level; DXF names can't hold '.', so decimals use '_'
+function levelLayerName(elevation: number): string {
+    return `CONTOUR_${String(round(elevation, 2)).replace('.', '_')}`;
+}
+
+// Builds an AutoCAD 2000 DXF (AC1015) with one LWPOLYLINE per line and one layer per level.
+// The elevation is set on each polyline (group code 38); units are metres. R2000 readers
+// expect a complete drawing, so the file carries handles, the standard symbol tables, the
+// model and paper space blocks and the root dictionary alongside the contours.
+export function buildContourDXF(group: THREE.Group, toElevation: (height: number) => number): string {
+    const levels = collectLevels(group, toElevation);
+    const out: (string | number)[] = [];
+    const pair = (code: number, value: string | number) => out.push(code, value);
+    let handle = 1;
+    const nextHandle = () => (handle++).toString(16).toUpperCase();
+
+    // Writes a symbol table: header, then one record per entry with its own subclass fields
+    const table = (name: string, entries: ((owner: string) => void)[], subclass?: string) => {
+        const owner = nextHandle();
+        pair(0, 'TABLE');
+        pair(2, name);
+        pair(5, owner);
+        pair(330, 0);
+        pair(100, 'AcDbSymbolTable');
+        pair(70, entries.length);
+        if (subclass) {
+            pair(100, subclass);
+            pair(71, 0);
+        }
+        for (const entry of entries) entry(owner);
+        pair(0, 'ENDTAB');
+    };
+    // Record start shared by all tables; dimension styles keep their handle in 105
+    const record = (type: string, subclass: string, owner: string, handleCode: number = 5) => {
+        const own = nextHandle();
+        pair(0, type);
+        pair(handleCode, own);
+        pair(330, owner);
+        pair(100, 'AcDbSymbolTableRecord');
+        pair(100, subclass);
+        return own;
+    };
+
+    // Extents of the lines, to centre the initial view on them
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const lines = levels.map(level => level.polylines
+        .map(polyline => ({ closed: polyline.closed, coordinates: projectPolyline(polyline, false) }))
+        .filter(line => line.coordinates.length >= 2));
+    for (const line of lines.flat()) {
+        for (const [x, y] of line.coordinates) {
+            minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+        }
+    }
+    if (minX > maxX) minX = maxX = minY = maxY = 0;
+
+    pair(0, 'SECTION');
+    pair(2, 'CLASSES');
+    pair(0, 'ENDSEC');
+
+    pair(0, 'SECTION');
+    pair(2, 'TABLES');
+    table('VPORT', [owner => {
+        record('VPORT', 'AcDbViewportTableRecord', owner);
+        pair(2, '*Active');
+        pair(70, 0);
+        pair(10, 0); pair(20, 0);
+        pair(11, 1); pair(21, 1);
+        pair(12, round((minX + maxX) / 2, 3)); pair(22, round((minY + maxY) / 2, 3));
+        pair(40, round(Math.max(maxY - minY, (maxX - minX) / 1.5, 1) * 1.1, 3));
+        pair(41, 1.5);
+    }]);
+    table('LTYPE', ['ByBlock', 'ByLayer', 'Continuous'].map(name => (owner: string) => {
+        record('LTYPE', 'AcDbLinetypeTableRecord', owner);
+        pair(2, name);
+        pair(70, 0);
+        pair(3, name === 'Continuous' ? 'Solid line' : '');
+        pair(72, 65);
+        pair(73, 0);
+        pair(40, 0);
+    }));
+    // Index levels get white (7), the others grey (8)
+    const layers: [string, number][] = [['0', 7], ...levels.map(level => [levelLayerName(level.elevation), level.isIndex ? 7 : 8] as [string, number])];
+    table('LAYER', layers.map(([name, color]) => (owner: string) => {
+        record('LAYER', 'AcDbLayerTableRecord', owner);
+        pair(2, name);
+        pair(70, 0);
+        pair(62, color);
+        pair(6, 'Continuous');
+    }));
+    table('STYLE', [owner => {
+        record('STYLE', 'AcDbTextStyleTableRecord', owner);
+        pair(2, 'Standard');
+        pair(70, 0);
+        pair(40, 0);
+        pair(41, 1);
+        pair(50, 0);
+        pair(71, 0);
+        pair(42, 2.5);
+        pair(3, 'txt');
+        pair(4, '');
+    }]);
+    table('VIEW', []);
+    table('UCS', []);
+    table('APPID', [owner => {
+        record('APPID', 'AcDbRegAppTableRecord', owner);
+        pair(2, 'ACAD');
+        pair(70, 0);
+    }]);
+    table('DIMSTYLE', [owner => {
+        record('DIMSTYLE', 'AcDbDimStyleTableRecord', owner, 105);
+        pair(2, 'Standard');
+        pair(70, 0);
+    }], 'AcDbDimStyleTable');
+    const spaces: { name: string, owner: string }[] = [];
+    table('BLOCK_RECORD', ['*Model_Space', '*Paper_Space'].map(name => (owner: string) => {
+        spaces.push({ name, owner: record('BLOCK_RECORD', 'AcDbBlockTableRecord', owner) });
+        pair(2, name);
+    }));
+    pair(0, 'ENDSEC');
+
+    pair(0, 'SECTION');
+    pair(2, 'BLOCKS');
+    for (const { name, owner } of spaces) {
+        pair(0, 'BLOCK');
+        pair(5, nextHandle());
+        pair(330, owner);
+        pair(100, 'AcDbEntity');
+        if (name === '*Paper_Space') pair(67, 1);
+        pair(8, '0');
+        pair(100, 'AcDbBlockBegin');
+        pair(2, name);
+        pair(70, 0);
+        pair(10, 0); pair(20, 0); pair(30, 0);
+        pair(3, name);
+        pair(1, '');
+        pair(0, 'ENDBLK');
+        pair(5, nextHandle());
+        pair(330, owner);
+        pair(100, 'AcDbEntity');
+        if (name === '*Paper_Space') pair(67, 1);
+        pair(8, '0');
+        pair(100, 'AcDbBlockEnd');
+    }
+    pair(0, 'ENDSEC');
+
+    pair(0, 'SECTION');
+    pair(2, 'ENTITIES');
+    const modelSpace = spaces[0].owner;
+    levels.forEach((level, i) => {
+        const layer = levelLayerName(level.elevation);
+        for (const { closed, coordinates } of lines[i]) {
+            pair(0, 'LWPOLYLINE');
+            pair(5, nextHandle());
+            pair(330, modelSpace);
+            pair(100, 'AcDbEntity');
+            pair(8, layer);
+            pair(100, 'AcDbPolyline');
+            pair(90, coordinates.length);
+            pair(70, closed ? 1 : 0);
+            pair(38, round(level.elevation, 3));
+            for (const [x, y] of coordinates) {
+                pair(10, round(x, 3));
+                pair(20, round(y, 3));
+            }
+        }
+    });
+    pair(0, 'ENDSEC');
+
+    // Root dictionary with the (empty) group dictionary every drawing has
+    const root = nextHandle(), groups = nextHandle();
+    pair(0, 'SECTION');
+    pair(2, 'OBJECTS');
+    pair(0, 'DICTIONARY');
+    pair(5, root);
+    pair(330, 0);
+    pair(100, 'AcDbDictionary');
+    pair(281, 1);
+    pair(3, 'ACAD_GROUP');
+    pair(350, groups);
+    pair(0, 'DICTIONARY');
+    pair(5, groups);
+    pair(330, root);
+    pair(100, 'AcDbDictionary');
+    pair(281, 1);
+    pair(0, 'ENDSEC');
+    pair(0, 'EOF');
+
+    // The header goes first but needs the next free handle, so it is written last
+    const header: (string | number)[] = [
+        0, 'SECTION', 2, 'HEADER',
+        9, '$ACADVER', 1, 'AC1015',
+        9, '$HANDSEED', 5, nextHandle(),
+        9, '$INSUNITS', 70, 6, // Metres
+        0, 'ENDSEC'
+    ];
+    out.unshift(...header);
+
+    // Group codes and values alternate on their own lines
+    return out.join('\n') + '\n';
+}
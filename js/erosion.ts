@@ -0,0 +1,174 @@
+import { createSeededRandom } from './random.js';
+import { ProgressTask } from './incremental.js';
+
+// Erosion passes over the terrain height grid, kept free of three.js so they run in the
+// terrain worker right after the heights. Hydraulic erosion follows many rain droplets
+// downhill, picking up sediment where they speed up and dropping it where they slow;
+// thermal erosion slides material off slopes steeper than the talus angle.
+
+export interface ErosionParams {
+    seed: number;
+    maxHeight: number;         // Heights are normalised by this while droplets run
+    minHeight: number;         // Terrain floor; eroded heights never go below it
+    cellSize: number;          // World distance between grid vertices
+    hydraulic: boolean;
+    droplets: number;          // Rain droplets simulated
+    rain: number;              // Water each droplet starts with
+    strength: number;          // Erosion and deposition speed, 0-1
+    radius: number;            // Erosion brush radius in cells
+    thermal: boolean;
+    thermalPasses: number;
+    talusAngle: number;        // Degrees; steeper slopes shed material
+}
+
+// Droplet simulation constants (tuned for heights normalised to 0-1)
+const INERTIA = 0.05;
+const SEDIMENT_CAPACITY = 4;
+const MIN_SEDIMENT_CAPACITY = 0.01;
+const EVAPORATE_SPEED = 0.01;
+const GRAVITY = 4;
+const MAX_LIFETIME = 30;
+const DROPLETS_PER_STEP = 500;
+
+// Height and gradient at a fractional grid position, by bilinear interpolation
+function sampleGradient(heights: Float32Array, size: number, x: number, y: number): [number, number, number] {
+    const cx = Math.floor(x), cy = Math.floor(y);
+    const u = x - cx, v = y - cy;
+    const i = cy * size + cx;
+    const nw = heights[i], ne = heights[i + 1], sw = heights[i + size], se = heights[i + size + 1];
+    const gradientX = (ne - nw) * (1 - v) + (se - sw) * v;
+    const gradientY = (sw - nw) * (1 - u) + (se - ne) * u;
+    const height = nw * (1 - u) * (1 - v) + ne * u * (1 - v) + sw * (1 - u) * v + se * u * v;
+    return [height, gradientX, gradientY];
+}
+
+// Offsets and normalised weights of the circular erosion brush
+function createBrush(radius: number): { offsets: [number, number][], weights: number[] } {
+    const offsets: [number, number][] = [];
+    const weights: number[] = [];
+    let total = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            const distance = Math.hypot(dx, dy);
+            if (distance > radius) continue;
+            const weight = 1 - distance / (radius + 1);
+            offsets.push([dx, dy]);
+            weights.push(weight);
+            total += weight;
+        }
+    }
+    return { offsets, weights: weights.map(w => w / total) };
+}
+
+// Runs rain droplets over a square grid of normalised heights, yielding progress
+function* hydraulicErosion(heights: Float32Array, size: number, params: ErosionParams): ProgressTask<void> {
+    const random = createSeededRandom(params.seed * 31 + 7);
+    const brush = createBrush(Math.max(1, Math.round(params.radius)));
+    const erodeSpeed = params.strength;
+    const depositSpeed = params.strength;
+
+    for (let drop = 0; drop < params.droplets; drop++) {
+        let x = random() * (size - 1), y = random() * (size - 1);
+        let dirX = 0, dirY = 0;
+        let speed = 1, water = params.rain, sediment = 0;
+
+        for (let life = 0; life < MAX_LIFETIME; life++) {
+            const cellX = Math.floor(x), cellY = Math.floor(y);
+            const u = x - cellX, v = y - cellY;
+            const [height, gradientX, gradientY] = sampleGradient(heights, size, x, y);
+
+            // Blend the previous direction with the downhill direction
+            dirX = dirX * INERTIA - gradientX * (1 - INERTIA);
+            dirY = dirY * INERTIA - gradientY * (1 - INERTIA);
+            const length = Math.hypot(dirX, dirY);
+            if (length === 0) break;
+            dirX /= length;
+            dirY /= length;
+            x += dirX;
+            y += dirY;
+            if (x < 0 || y < 0 || x >= size - 1 || y >= size - 1) break;
+
+            const deltaHeight = sampleGradient(heights, size, x, y)[0] - height;
+            const capacity = Math.max(-deltaHeight * speed * water * SEDIMENT_CAPACITY, MIN_SEDIMENT_CAPACITY);
+            const i = cellY * size + cellX;
+
+            if (sediment > capacity || deltaHeight > 0) {
+                // Uphill: fill the pit behind; otherwise drop part of the surplus, split over the cell corners
+                const amount = deltaHeight > 0 ? Math.min(deltaHeight, sediment) : (sediment - capacity) * depositSpeed;
+                sediment -= amount;
+                heights[i] += amount * (1 - u) * (1 - v);
+                heights[i + 1] += amount * u * (1 - v);
+                heights[i + size] += amount * (1 - u) * v;
+                heights[i + size + 1] += amount * u * v;
+            } else {
+                // Erode with the brush, never digging deeper than the height drop
+                const amount = Math.min((capacity - sediment) * erodeSpeed, -deltaHeight);
+                for (let b = 0; b < brush.offsets.length; b++) {
+                    const bx = cellX + brush.offsets[b][0], by = cellY + brush.offsets[b][1];
+                    if (bx < 0 || by < 0 || bx >= size || by >= size) continue;
+                    const index = by * size + bx;
+                    const removed = Math.min(heights[index], amount * brush.weights[b]);
+                    heights[index] -= removed;
+                    sediment += removed;
+                }
+            }
+
+            speed = Math.sqrt(Math.max(0, speed * speed - deltaHeight * GRAVITY));
+            water *= 1 - EVAPORATE_SPEED;
+        }
+
+        if ((drop + 1) % DROPLETS_PER_STEP === 0) yield (drop + 1) / params.droplets;
+    }
+}
+
+// Moves material from each cell to lower neighbours that exceed the talus slope
+function* thermalErosion(heights: Float32Array, size: number, params: ErosionParams): ProgressTask<void> {
+    const talus = Math.tan(params.talusAngle * Math.PI / 180) * params.cellSize / params.maxHeight;
+    const neighbours = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+    const delta = new Float32Array(heights.length);
+
+    for (let pass = 0; pass < params.thermalPasses; pass++) {
+        delta.fill(0);
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                const i = y * size + x;
+                // Send material to the steepest lower neighbour only, half the excess at most
+                let steepest = -1, excess = 0;
+                for (const [dx, dy] of neighbours) {
+                    const nx = x + dx, ny = y + dy;
+                    if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+                    const drop = heights[i] - heights[ny * size + nx] - talus;
+                    if (drop > excess) {
+                        excess = drop;
+                        steepest = ny * size + nx;
+                    }
+                }
+                if (steepest < 0) continue;
+                const amount = excess * 0.5 * params.strength;
+                delta[i] -= amount;
+                delta[steepest] += amount;
+            }
+        }
+        for (let i = 0; i < heights.length; i++) heights[i] += delta[i];
+        yield (pass + 1) / params.thermalPasses;
+    }
+}
+
+// Erodes the y components of a square xyz grid in place
+export function* erodeHeightsTask(positions: Float32Array, rowLength: number, params: ErosionParams): ProgressTask<void> {
+    const heights = new Float32Array(positions.length / 3);
+    for (let i = 0; i < heights.length; i++) heights[i] = positions[i * 3 + 1] / params.maxHeight;
+
+    const hydraulicShare = params.hydraulic && params.thermal ? 0.8 : 1;
+    if (params.hydraulic && params.droplets > 0) {
+        for (const progress of hydraulicErosion(heights, rowLength, params)) yield progress * hydraulicShare;
+    }
+    if (params.thermal && params.thermalPasses > 0) {
+        const start = params.hydraulic ? hydraulicShare : 0;
+        for (const progress of thermalErosion(heights, rowLength, params)) yield start + progress * (1 - start);
+    }
+
+    for (let i = 0; i < heights.length; i++) {
+        positions[i * 3 + 1] = Math.max(params.minHeight, heights[i] * params.maxHeight);
+    }
+}
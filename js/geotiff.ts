@@ -0,0 +1,291 @@
+import { HeightRaster, createHeightRaster } from './terrainHeights.js';
+
+// Minimal reader for single-band GeoTIFF elevation rasters (classic TIFF, strips or tiles).
+// Supports uncompressed, LZW, Deflate and PackBits data with the horizontal and
+// floating-point predictors, which covers what GDAL and most DEM portals write.
+
+const TAG = {
+    ImageWidth: 256,
+    ImageLength: 257,
+    BitsPerSample: 258,
+    Compression: 259,
+    StripOffsets: 273,
+    SamplesPerPixel: 277,
+    RowsPerStrip: 278,
+    StripByteCounts: 279,
+    Predictor: 317,
+    TileWidth: 322,
+    TileLength: 323,
+    TileOffsets: 324,
+    TileByteCounts: 325,
+    SampleFormat: 339,
+    ModelPixelScale: 33550,
+    GeoKeyDirectory: 34735,
+    GdalNoData: 42113
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: { [type: number]: number } = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Metres per degree of latitude, for rasters in geographic coordinates
+const METRES_PER_DEGREE = 111320;
+
+type TagValue = number[] | string;
+
+function readTags(view: DataView, littleEndian: boolean): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+    for (let e = 0; e < entryCount; e++) {
+        const entry = ifdOffset + 2 + e * 12;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const count = view.getUint32(entry + 4, littleEndian);
+        const size = TYPE_SIZES[type];
+        if (!size) continue;
+        // Values that fit in four bytes are stored inline
+        const offset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+        if (type === 2) {
+            let text = '';
+            for (let i = 0; i < count; i++) {
+                const c = view.getUint8(offset + i);
+                if (c === 0) break;
+                text += String.fromCharCode(c);
+            }
+            tags.set(tag, text);
+            continue;
+        }
+
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const at = offset + i * size;
+            switch (type) {
+                case 1: case 7: values.push(view.getUint8(at)); break;
+                case 6: values.push(view.getInt8(at)); break;
+                case 3: values.push(view.getUint16(at, littleEndian)); break;
+                case 8: values.push(view.getInt16(at, littleEndian)); break;
+                case 4: values.push(view.getUint32(at, littleEndian)); break;
+                case 9: values.push(view.getInt32(at, littleEndian)); break;
+                case 5: values.push(view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)); break;
+                case 10: values.push(view.getInt32(at, littleEndian) / view.getInt32(at + 4, littleEndian)); break;
+                case 11: values.push(view.getFloat32(at, littleEndian)); break;
+                case 12: values.push(view.getFloat64(at, littleEndian)); break;
+            }
+        }
+        tags.set(tag, values);
+    }
+    return tags;
+}
+
+function decodeLZW(input: Uint8Array, expectedSize: number): Uint8Array {
+    const output = new Uint8Array(expectedSize);
+    let outPos = 0;
+    const table: Uint8Array[] = [];
+    for (let i = 0; i < 256; i++) table.push(Uint8Array.of(i));
+    table.push(new Uint8Array(0), new Uint8Array(0)); // 256 = Clear, 257 = EndOfInformation
+
+    let codeWidth = 9;
+    let bitPos = 0;
+    let previous: Uint8Array | null = null;
+    const totalBits = input.length * 8;
+
+    const concat = (a: Uint8Array, b: number): Uint8Array => {
+        const result = new Uint8Array(a.length + 1);
+        result.set(a);
+        result[a.length] = b;
+        return result;
+    };
+
+    while (bitPos + codeWidth <= totalBits) {
+        // Codes are packed most significant bit first
+        let code = 0;
+        for (let i = 0; i < codeWidth; i++, bitPos++) {
+            code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+        }
+        if (code === 257) break;
+        if (code === 256) {
+            table.length = 258;
+            codeWidth = 9;
+            previous = null;
+            continue;
+        }
+
+        let entry: Uint8Array;
+        if (code < table.length) {
+            entry = table[code];
+            if (previous) table.push(concat(previous, entry[0]));
+        } else if (previous) {
+            entry = concat(previous, previous[0]);
+            table.push(entry);
+        } else {
+            throw new Error('Corrupt LZW data');
+        }
+
+        const room = Math.min(entry.length, output.length - outPos);
+        output.set(entry.subarray(0, room), outPos);
+        outPos += room;
+        previous = entry;
+
+        // TIFF's LZW switches code width one code early
+        if (table.length >= (1 << codeWidth) - 1 && codeWidth < 12) codeWidth++;
+    }
+    return output;
+}
+
+function decodePackBits(input: Uint8Array, expectedSize: number): Uint8Array {
+    const output = new Uint8Array(expectedSize);
+    let inPos = 0, outPos = 0;
+    while (inPos < input.length && outPos < output.length) {
+        const header = (input[inPos++] << 24) >> 24;
+        if (header >= 0) {
+            for (let i = 0; i <= header && outPos < output.length; i++) output[outPos++] = input[inPos++];
+        } else if (header !== -128) {
+            const value = input[inPos++];
+            for (let i = 0; i < 1 - header && outPos < output.length; i++) output[outPos++] = value;
+        }
+    }
+    return output;
+}
+
+async function decodeDeflate(input: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(compression: number, input: Uint8Array, expectedSize: number): Promise<Uint8Array> {
+    switch (compression) {
+        case 1: return input;
+        case 5: return decodeLZW(input, expectedSize);
+        case 8: case 32946: return decodeDeflate(input);
+        case 32773: return decodePackBits(input, expectedSize);
+        default: throw new Error(`Unsupported TIFF compression ${compression}`);
+    }
+}
+
+// Undoes the horizontal (2) or floating-point (3) predictor in place, row by row
+function undoPredictor(
+    predictor: number, bytes: Uint8Array, width: number, rows: number,
+    bytesPerSample: number, littleEndian: boolean
+): Uint8Array {
+    if (predictor === 2) {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        for (let r = 0; r < rows; r++) {
+            for (let c = 1; c < width; c++) {
+                const at = (r * width + c) * bytesPerSample;
+                const before = at - bytesPerSample;
+                if (bytesPerSample === 1) bytes[at] = (bytes[at] + bytes[before]) & 0xff;
+                else if (bytesPerSample === 2) view.setUint16(at, view.getUint16(at, littleEndian) + view.getUint16(before, littleEndian), littleEndian);
+                else view.setUint32(at, (view.getUint32(at, littleEndian) + view.getUint32(before, littleEndian)) >>> 0, littleEndian);
+            }
+        }
+        return bytes;
+    }
+    if (predictor === 3) {
+        // Bytes are differenced across the row, then stored as planes of most significant byte first
+        const rowBytes = width * bytesPerSample;
+        const result = new Uint8Array(bytes.length);
+        for (let r = 0; r < rows; r++) {
+            const row = bytes.subarray(r * rowBytes, (r + 1) * rowBytes);
+            for (let i = 1; i < rowBytes; i++) row[i] = (row[i] + row[i - 1]) & 0xff;
+            for (let c = 0; c < width; c++) {
+                for (let b = 0; b < bytesPerSample; b++) {
+                    const byteIndex = littleEndian ? bytesPerSample - 1 - b : b;
+                    result[r * rowBytes + c * bytesPerSample + byteIndex] = row[b * width + c];
+                }
+            }
+        }
+        return result;
+    }
+    return bytes;
+}
+
+function sampleReader(bits: number, format: number, view: DataView, littleEndian: boolean): (offset: number) => number {
+    if (format === 3 && bits === 32) return o => view.getFloat32(o, littleEndian);
+    if (format === 3 && bits === 64) return o => view.getFloat64(o, littleEndian);
+    if (format === 2 && bits === 8) return o => view.getInt8(o);
+    if (format === 2 && bits === 16) return o => view.getInt16(o, littleEndian);
+    if (format === 2 && bits === 32) return o => view.getInt32(o, littleEndian);
+    if (bits === 8) return o => view.getUint8(o);
+    if (bits === 16) return o => view.getUint16(o, littleEndian);
+    if (bits === 32) return o => view.getUint32(o, littleEndian);
+    throw new Error(`Unsupported GeoTIFF sample type (${bits} bits, format ${format})`);
+}
+
+// Decodes the first image of a GeoTIFF into a raster (no-data cells become the raster minimum)
+export async function parseGeoTiff(buffer: ArrayBuffer): Promise<HeightRaster> {
+    const view = new DataView(buffer);
+    const byteOrder = view.getUint16(0, false);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) throw new Error('Not a TIFF file');
+    const littleEndian = byteOrder === 0x4949;
+    const magic = view.getUint16(2, littleEndian);
+    if (magic === 43) throw new Error('BigTIFF files are not supported');
+    if (magic !== 42) throw new Error('Not a TIFF file');
+
+    const tags = readTags(view, littleEndian);
+    const num = (tag: number, fallback: number): number => {
+        const value = tags.get(tag);
+        return Array.isArray(value) && value.length > 0 ? value[0] : fallback;
+    };
+    const list = (tag: number): number[] => {
+        const value = tags.get(tag);
+        return Array.isArray(value) ? value : [];
+    };
+
+    const width = num(TAG.ImageWidth, 0);
+    const height = num(TAG.ImageLength, 0);
+    if (!width || !height) throw new Error('GeoTIFF has no image dimensions');
+    if (num(TAG.SamplesPerPixel, 1) !== 1) throw new Error('Only single-band GeoTIFFs are supported');
+
+    const bits = num(TAG.BitsPerSample, 8);
+    const format = num(TAG.SampleFormat, 1);
+    const compression = num(TAG.Compression, 1);
+    const predictor = num(TAG.Predictor, 1);
+    const bytesPerSample = bits / 8;
+
+    // Strips are treated as full-width tiles so both layouts share one loop
+    const tiled = tags.has(TAG.TileOffsets);
+    const chunkWidth = tiled ? num(TAG.TileWidth, width) : width;
+    const chunkHeight = tiled ? num(TAG.TileLength, height) : Math.min(num(TAG.RowsPerStrip, height), height);
+    const offsets = list(tiled ? TAG.TileOffsets : TAG.StripOffsets);
+    const byteCounts = list(tiled ? TAG.TileByteCounts : TAG.StripByteCounts);
+    const chunksAcross = Math.ceil(width / chunkWidth);
+
+    const data = new Float32Array(width * height);
+    for (let chunk = 0; chunk < offsets.length; chunk++) {
+        const compressed = new Uint8Array(buffer, offsets[chunk], byteCounts[chunk]);
+        const expectedSize = chunkWidth * chunkHeight * bytesPerSample;
+        let bytes = await decompress(compression, compressed.slice(), expectedSize);
+        const rows = Math.floor(bytes.length / (chunkWidth * bytesPerSample));
+        bytes = undoPredictor(predictor, bytes, chunkWidth, rows, bytesPerSample, littleEndian);
+
+        const chunkView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const read = sampleReader(bits, format, chunkView, littleEndian);
+        const originX = (chunk % chunksAcross) * chunkWidth;
+        const originY = Math.floor(chunk / chunksAcross) * chunkHeight;
+        for (let y = 0; y < rows && originY + y < height; y++) {
+            for (let x = 0; x < chunkWidth && originX + x < width; x++) {
+                data[(originY + y) * width + originX + x] = read((y * chunkWidth + x) * bytesPerSample);
+            }
+        }
+    }
+
+    const noDataTag = tags.get(TAG.GdalNoData);
+    // Stored as ASCII; rounded to float32 so it compares equal to the samples read above
+    const noData = typeof noDataTag === 'string' ? Math.fround(parseFloat(noDataTag)) : NaN;
+
+    let cellSize: number | null = null;
+    const pixelScale = list(TAG.ModelPixelScale);
+    if (pixelScale.length > 0 && pixelScale[0] > 0) {
+        // GTModelTypeGeoKey (1024) = 2 means the pixel scale is in degrees
+        const geoKeys = list(TAG.GeoKeyDirectory);
+        let geographic = false;
+        for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+            if (geoKeys[k] === 1024 && geoKeys[k + 3] === 2) geographic = true;
+        }
+        cellSize = geographic ? pixelScale[0] * METRES_PER_DEGREE : pixelScale[0];
+    }
+
+    return createHeightRaster(width, height, data, noData, cellSize);
+}
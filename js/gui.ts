@@ -1,25 +1,59 @@
 import * as THREE from 'three';
-import { config, baseConfig, Styles } from './config.js';
-import { updateControls, updateFog } from './scene.js';
+import { config, baseConfig, Styles, LabelFonts, LabelUnits, ColorRampPresets, ShadeModes, TerrainPresets, RecordingFormats, RecordingResolutions, PrintSizeModes, PaperSizes, PaperOrientations, MeshExportFormats, CameraModes, FlythroughEasings, HoverEffects, SculptTools } from './config.js';
+import { NoiseVariants } from './terrainHeights.js';
+import { updateControls, updateFog, setCameraMode, setCameraFov } from './scene.js';
+import { getActiveHeightSource } from './heightSources.js';
 
 declare const dat: any;
 
 let gui: dat.GUI;
 let fillOpacityController: dat.GUIController;
+// Rebuilds the colour ramp stop controls, bound to the current stop objects; set up by setupGUI
+let rebuildStopControllers = () => {};
+// Rebuilds the saved viewpoint buttons; set up by setupGUI
+let rebuildKeyframeControllers = () => {};
+// Shows the hover effect settings that apply to the selected effect; set up by setupGUI
+let toggleEffectControllerVisibility = () => {};
 
 // Creates dat.GUI interface with controls for terrain, camera and visualization
 export function setupGUI(
     updateVisualizationCallback: (shouldRandomize?: boolean, updateStyleOnly?: boolean) => void,
+    previewVisualizationCallback: (updateStyleOnly?: boolean) => void,
+    generateTerrainCallback: () => void,
     exportCallback: () => void,
+    exportSVGCallback: () => void,
+    exportPrintCallback: () => void,
+    exportGeoJSONCallback: () => void,
+    exportDXFCallback: () => void,
+    exportModelCallback: () => void,
+    recordCallback: () => void,
+    saveKeyframeCallback: (name: string) => void,
+    goToKeyframeCallback: (index: number) => void,
+    toggleFlythroughCallback: () => void,
+    clearProbePinsCallback: () => void,
+    undoSculptCallback: () => void,
+    redoSculptCallback: () => void,
+    importElevationCallback: () => void,
+    useNoiseTerrainCallback: () => void,
     getTerrainBorder: () => THREE.Line | null,
     updateContourColorCallback: (value: string) => void,
     updateBackgroundColorCallback: (value: string) => void,
     updateFadingLinesFogUniformsCallback: () => void,
+    updateTerrainMaterialCallback: () => void,
     contourLinesGroup: THREE.Group
 ): dat.GUI {
     if (gui) gui.destroy();
     gui = new dat.GUI();
 
+    // While a slider drags, either preview at low resolution or hide the stale lines
+    const onSliderDrag = (updateStyleOnly: boolean) => {
+        if (config.livePreview) {
+            previewVisualizationCallback(updateStyleOnly);
+        } else if (contourLinesGroup) {
+            contourLinesGroup.visible = false;
+        }
+    };
+
     // --- Style Folder (Moved to Top) ---
     const styleFolder = gui.addFolder('Style');
     styleFolder.add(config, 'style', Object.values(Styles)).name('Render Style')
@@ -34,29 +68,86 @@ export function setupGUI(
     // --- Terrain Shape Folder ---
     const terrainFolder = gui.addFolder('Terrain Shape');
     terrainFolder.add(baseConfig, 'terrainMaxHeight', 20, 300, 5).name('Height')
-        .onChange(() => { if (contourLinesGroup) contourLinesGroup.visible = false; })
+        .onChange(() => onSliderDrag(false))
         .onFinishChange(() => {
             updateVisualizationCallback(false);
             if (contourLinesGroup) contourLinesGroup.visible = true;
         });
     terrainFolder.add(baseConfig, 'noiseScale', 70, 200, 10).name('Feature Size')
-        .onChange(() => { if (contourLinesGroup) contourLinesGroup.visible = false; })
+        .onChange(() => onSliderDrag(false))
         .onFinishChange(() => {
             updateVisualizationCallback(false);
             if (contourLinesGroup) contourLinesGroup.visible = true;
         });
     terrainFolder.add(config, 'plateauVolume', 0.0, 1.0, 0.01).name('Plateau Volume')
-        .onChange(() => { if (contourLinesGroup) contourLinesGroup.visible = false; })
+        .onChange(() => onSliderDrag(false))
+        .onFinishChange(() => {
+            updateVisualizationCallback(false);
+            if (contourLinesGroup) contourLinesGroup.visible = true;
+        });
+    // Presets fill in every noise setting below; editing one switches to 'Custom'
+    const presetController = terrainFolder.add(config, 'terrainPreset', [...Object.keys(TerrainPresets), 'Custom']).name('Preset')
+        .onChange((name: string) => {
+            const preset = TerrainPresets[name];
+            if (!preset) return;
+            Object.assign(config, preset);
+            noiseFolder.__controllers.forEach((controller: any) => controller.updateDisplay());
+            updateVisualizationCallback(false);
+        });
+    const noiseFolder = terrainFolder.addFolder('Noise');
+    const addNoiseSetting = (controller: dat.GUIController) => controller
+        .onChange(() => {
+            config.terrainPreset = 'Custom';
+            presetController.updateDisplay();
+            onSliderDrag(false);
+        })
         .onFinishChange(() => {
             updateVisualizationCallback(false);
             if (contourLinesGroup) contourLinesGroup.visible = true;
         });
+    addNoiseSetting(noiseFolder.add(config, 'noiseVariant', Object.values(NoiseVariants)).name('Variant'));
+    addNoiseSetting(noiseFolder.add(config, 'noiseOctaves', 1, 8, 1).name('Octaves'));
+    addNoiseSetting(noiseFolder.add(config, 'noiseLacunarity', 0.5, 4, 0.01).name('Lacunarity'));
+    addNoiseSetting(noiseFolder.add(config, 'noiseGain', 0, 1, 0.01).name('Gain'));
+    addNoiseSetting(noiseFolder.add(config, 'warpStrength', 0, 2, 0.01).name('Warp Strength'));
+    addNoiseSetting(noiseFolder.add(config, 'warpScale', 0.2, 5, 0.1).name('Warp Scale'));
+    addNoiseSetting(noiseFolder.add(config, 'detailContrast', 0, 1, 0.01).name('Detail Contrast'));
+    addNoiseSetting(noiseFolder.add(config, 'modulationScale', 1, 10, 0.1).name('Region Scale'));
+    addNoiseSetting(noiseFolder.add(config, 'modulationMin', 0, 2, 0.01).name('Region Min'));
+    addNoiseSetting(noiseFolder.add(config, 'modulationMax', 0, 2, 0.01).name('Region Max'));
+    addNoiseSetting(noiseFolder.add(config, 'islandFalloff', 0, 1, 0.01).name('Island Falloff'));
+    addNoiseSetting(noiseFolder.add(config, 'terraceSteps', 0, 12, 1).name('Terraces'));
+    // Re-entering a seed replays the same randomized settings, colours and terrain
+    terrainFolder.add(config, 'seed').step(1).name('Seed')
+        .onFinishChange(() => {
+            config.seed = Math.max(0, Math.floor(config.seed));
+            updateVisualizationCallback(true);
+        });
+
+    // Elevation source: the noise generator above, or an imported file
+    const sourceController = terrainFolder.add({ get source() { return getActiveHeightSource().name; } }, 'source').name('Elevation Source');
+    const sourceInput = sourceController.domElement.querySelector('input');
+    if (sourceInput) sourceInput.disabled = true; // Display only
+    terrainFolder.add({ importElevation: importElevationCallback }, 'importElevation').name('Load Elevation File…');
+    terrainFolder.add({ useNoise: useNoiseTerrainCallback }, 'useNoise').name('Use Noise Terrain');
     terrainFolder.open();
 
+    // --- Erosion Folder ---
+    // Runs in the worker after the heights, so every change regenerates the terrain
+    const erosionFolder = gui.addFolder('Erosion');
+    const regenerateTerrain = () => updateVisualizationCallback(false);
+    erosionFolder.add(config, 'hydraulicErosion').name('Hydraulic').onChange(regenerateTerrain);
+    erosionFolder.add(config, 'erosionDroplets', 1000, 200000, 1000).name('Iterations').onFinishChange(regenerateTerrain);
+    erosionFolder.add(config, 'erosionRain', 0.1, 4, 0.1).name('Rain Amount').onFinishChange(regenerateTerrain);
+    erosionFolder.add(config, 'erosionStrength', 0, 1, 0.01).name('Strength').onFinishChange(regenerateTerrain);
+    erosionFolder.add(config, 'thermalErosion').name('Thermal').onChange(regenerateTerrain);
+    erosionFolder.add(config, 'thermalPasses', 1, 100, 1).name('Thermal Passes').onFinishChange(regenerateTerrain);
+    erosionFolder.add(config, 'talusAngle', 10, 60, 1).name('Talus Angle').onFinishChange(regenerateTerrain);
+
     // --- Contours Folder ---
     const contoursFolder = gui.addFolder('Contours');
     contoursFolder.add(config, 'contourInterval', 1, 50, 1).name('Interval')
-        .onChange(() => { if (contourLinesGroup) contourLinesGroup.visible = false; })
+        .onChange(() => onSliderDrag(true))
         .onFinishChange(() => {
             // Only update contours/visuals, don't regenerate terrain
             updateVisualizationCallback(false, true); 
@@ -73,6 +164,16 @@ export function setupGUI(
             // Also trigger a general refresh to update mesh material if needed
             updateVisualizationCallback(false, true); // Pass flag/call simpler refresh
         });
+    contoursFolder.add(config, 'lineWidth', 0.5, 8, 0.1).name('Line Width')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    contoursFolder.add(config, 'indexContourPeriod', 0, 10, 1).name('Index Every')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    contoursFolder.addColor(config, 'indexContourColor').name('Index Color')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    contoursFolder.add(config, 'indexContourOpacity', 0.0, 1.0, 0.01).name('Index Opacity')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    contoursFolder.add(config, 'indexLineWidth', 0.5, 8, 0.1).name('Index Width')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
     fillOpacityController = contoursFolder.add(config, 'fillOpacity', 0.0, 1.0, 0.01).name('Fill Opacity');
     fillOpacityController.onFinishChange(() => {
         // Only need to update style/material
@@ -85,6 +186,82 @@ export function setupGUI(
     contoursFolder.addColor(config, 'backgroundColor').name('Background').onFinishChange(updateBackgroundColorCallback);
     contoursFolder.open();
 
+    // --- Shading Folder (filled style) ---
+    // Only the fill material changes, so no contour rebuild is needed
+    const shadingFolder = gui.addFolder('Shading');
+    shadingFolder.add(config, 'shadeMode', Object.values(ShadeModes)).name('Mode').onChange(updateTerrainMaterialCallback);
+    shadingFolder.add(config, 'sunAzimuth', 0, 360, 1).name('Sun Azimuth').onChange(updateTerrainMaterialCallback);
+    shadingFolder.add(config, 'sunAltitude', 1, 90, 1).name('Sun Altitude').onChange(updateTerrainMaterialCallback);
+    shadingFolder.add(config, 'shadeStrength', 0, 1, 0.01).name('Strength').onChange(updateTerrainMaterialCallback);
+
+    // --- Color Ramp Folder ---
+    const rampFolder = gui.addFolder('Color Ramp');
+    rampFolder.add(config, 'useColorRamp').name('Tint by Elevation')
+        .onChange(() => updateVisualizationCallback(false, true));
+    const paletteController = rampFolder.add(config, 'colorRamp', [...Object.keys(ColorRampPresets), 'Custom']).name('Palette')
+        .onChange((name: string) => {
+            const preset = ColorRampPresets[name];
+            if (preset) config.colorRampStops = preset.map(stop => ({ ...stop }));
+            rebuildStopControllers();
+            updateVisualizationCallback(false, true);
+        });
+    rampFolder.add(config, 'colorRampStepped').name('Stepped Bands')
+        .onChange(() => updateVisualizationCallback(false, true));
+
+    // One colour and one position control per stop, rebuilt whenever the list changes
+    const stopsFolder = rampFolder.addFolder('Stops');
+    let stopControllers: dat.GUIController[] = [];
+    const onStopEdited = () => {
+        config.colorRamp = 'Custom';
+        paletteController.updateDisplay();
+        updateVisualizationCallback(false, true);
+    };
+    const stopActions = {
+        // Splits the widest gap between stops, starting from the colour below it
+        addStop: () => {
+            const sorted = [...config.colorRampStops].sort((a, b) => a.position - b.position);
+            let widest = 0;
+            for (let i = 1; i < sorted.length - 1; i++) {
+                if (sorted[i + 1].position - sorted[i].position > sorted[widest + 1].position - sorted[widest].position) widest = i;
+            }
+            const below = sorted[widest], above = sorted[Math.min(widest + 1, sorted.length - 1)];
+            config.colorRampStops = [...sorted, { position: (below.position + above.position) / 2, color: below.color }]
+                .sort((a, b) => a.position - b.position);
+            rebuildStopControllers();
+            onStopEdited();
+        },
+        removeStop: () => {
+            if (config.colorRampStops.length <= 2) return;
+            config.colorRampStops = config.colorRampStops.slice(0, -1);
+            rebuildStopControllers();
+            onStopEdited();
+        }
+    };
+    rebuildStopControllers = () => {
+        stopControllers.forEach(controller => stopsFolder.remove(controller));
+        stopControllers = [];
+        config.colorRampStops.forEach((stop, i) => {
+            stopControllers.push(stopsFolder.addColor(stop, 'color').name(`Stop ${i + 1}`).onFinishChange(onStopEdited));
+            stopControllers.push(stopsFolder.add(stop, 'position', 0, 1, 0.01).name(`Stop ${i + 1} Height`).onFinishChange(onStopEdited));
+        });
+        stopControllers.push(stopsFolder.add(stopActions, 'addStop').name('Add Stop'));
+        stopControllers.push(stopsFolder.add(stopActions, 'removeStop').name('Remove Last Stop'));
+    };
+    rebuildStopControllers();
+
+    // --- Labels Folder ---
+    const labelsFolder = gui.addFolder('Labels');
+    labelsFolder.add(config, 'showContourLabels').name('Show Labels')
+        .onChange(() => updateVisualizationCallback(false, true));
+    labelsFolder.add(config, 'labelSpacing', 100, 1000, 10).name('Spacing')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    labelsFolder.add(config, 'labelSize', 6, 40, 1).name('Size')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    labelsFolder.add(config, 'labelFont', LabelFonts).name('Font')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+    labelsFolder.add(config, 'labelUnits', LabelUnits).name('Units')
+        .onFinishChange(() => updateVisualizationCallback(false, true));
+
     // Function to toggle visibility
     function toggleOpacityControllerVisibility() {
         if (fillOpacityController) { // Check if controller exists
@@ -97,6 +274,23 @@ export function setupGUI(
         }
     }
 
+    const previewFolder = gui.addFolder('Live Preview');
+    previewFolder.add(config, 'livePreview').name('Preview While Dragging');
+    previewFolder.add(config, 'previewBudgetMs', 10, 200, 5).name('Time Budget (ms)');
+
+    // --- Animation Folder ---
+    const animationFolder = gui.addFolder('Animation');
+    animationFolder.add(config, 'morphDuration', 0, 10, 0.1).name('Morph Duration (s)');
+    animationFolder.add(config, 'autoCycle').name('Auto Cycle');
+    animationFolder.add(config, 'autoCycleInterval', 5, 120, 1).name('Cycle Every (s)');
+    // Turning breathing off rebuilds the paused terrain at full resolution (with erosion)
+    animationFolder.add(config, 'breathing').name('Breathing Terrain')
+        .onChange((value: boolean) => { if (!value) updateVisualizationCallback(); });
+    animationFolder.add(config, 'breathingSpeed', 0, 0.5, 0.01).name('Breathing Speed');
+    animationFolder.add(config, 'driftSpeed', 0, 40, 0.5).name('Drift Speed');
+    animationFolder.add(config, 'driftDirection', 0, 360, 1).name('Drift Direction (°)');
+    animationFolder.add(config, 'breathingBudgetMs', 10, 200, 5).name('Frame Budget (ms)');
+
     const fogFolder = gui.addFolder('Fog');
     fogFolder.add(config, 'fogIntensity', 0, 1, 0.01).name('Intensity')
         .onFinishChange(() => {
@@ -107,8 +301,88 @@ export function setupGUI(
 
     // --- Camera Controls Folder ---
     const cameraFolder = gui.addFolder('Camera');
+    cameraFolder.add(config, 'cameraMode', Object.values(CameraModes)).name('View').onChange(setCameraMode);
     cameraFolder.add(config, 'enableZoom').name('Enable Zoom').onChange(updateControls);
     cameraFolder.add(config, 'enableRotate').name('Enable Rotation').onChange(updateControls);
+    cameraFolder.add(config, 'enablePan').name('Enable Pan').onChange(updateControls);
+    cameraFolder.add(config, 'cameraFov', 20, 100, 1).name('Field of View').onChange(setCameraFov);
+    cameraFolder.add(config, 'autoRotate').name('Auto Rotate').onChange(updateControls);
+    cameraFolder.add(config, 'autoRotateSpeed', -10, 10, 0.1).name('Rotate Speed').onChange(updateControls);
+
+    // --- Camera Path Folder ---
+    const pathFolder = gui.addFolder('Camera Path');
+    const pathActions = {
+        name: '',
+        save: () => {
+            saveKeyframeCallback(pathActions.name);
+            pathActions.name = '';
+            updateGUI();
+        },
+        removeLast: () => {
+            config.cameraKeyframes = config.cameraKeyframes.slice(0, -1);
+            rebuildKeyframeControllers();
+        },
+        play: toggleFlythroughCallback
+    };
+    pathFolder.add(pathActions, 'name').name('Viewpoint Name');
+    pathFolder.add(pathActions, 'save').name('Save Viewpoint');
+    pathFolder.add(config, 'flythroughDuration', 2, 120, 1).name('Duration (s)');
+    pathFolder.add(config, 'flythroughEasing', Object.values(FlythroughEasings)).name('Easing');
+    pathFolder.add(config, 'flythroughLoop').name('Loop');
+    pathFolder.add(pathActions, 'play').name('Play / Stop Flythrough');
+
+    // One 'go to' button per saved viewpoint, rebuilt with the list (also after a shared link loads)
+    const keyframesFolder = pathFolder.addFolder('Viewpoints');
+    let keyframeControllers: dat.GUIController[] = [];
+    rebuildKeyframeControllers = () => {
+        keyframeControllers.forEach(controller => keyframesFolder.remove(controller));
+        keyframeControllers = config.cameraKeyframes.map((keyframe, i) =>
+            keyframesFolder.add({ go: () => goToKeyframeCallback(i) }, 'go').name(`Go to ${keyframe.name}`));
+        if (config.cameraKeyframes.length > 0) {
+            keyframeControllers.push(keyframesFolder.add(pathActions, 'removeLast').name('Remove Last Viewpoint'));
+        }
+    };
+    rebuildKeyframeControllers();
+
+    // --- Sculpt Folder ---
+    // With a tool picked, left drag on the terrain sculpts instead of orbiting
+    const sculptFolder = gui.addFolder('Sculpt');
+    sculptFolder.add(config, 'sculptTool', Object.values(SculptTools)).name('Tool');
+    sculptFolder.add(config, 'sculptRadius', 2, 150, 1).name('Radius');
+    sculptFolder.add(config, 'sculptStrength', 0.01, 1, 0.01).name('Strength');
+    sculptFolder.add(config, 'sculptFalloff', 0, 1, 0.05).name('Falloff');
+    sculptFolder.add({ undo: undoSculptCallback }, 'undo').name('Undo Stroke (Ctrl+Z)');
+    sculptFolder.add({ redo: redoSculptCallback }, 'redo').name('Redo Stroke (Ctrl+Shift+Z)');
+
+    // --- Hover Effect Folder ---
+    // Each setting is shown only for the effects that use it
+    const hoverFolder = gui.addFolder('Hover Effect');
+    const effectControllers: [dat.GUIController, string[]][] = [];
+    const addEffectSetting = (controller: dat.GUIController, effects: string[]) => effectControllers.push([controller, effects]);
+    toggleEffectControllerVisibility = () => {
+        for (const [controller, effects] of effectControllers) {
+            const parentElement = controller.domElement.parentElement;
+            if (parentElement) parentElement.style.display = effects.includes(config.hoverEffect) ? '' : 'none';
+        }
+    };
+    hoverFolder.add(config, 'hoverEffect', Object.values(HoverEffects)).name('Effect').onChange(toggleEffectControllerVisibility);
+    const { WIGGLE, RIPPLE, MAGNETIC, LIFT } = HoverEffects;
+    addEffectSetting(hoverFolder.add(config, 'hoverAmplitude', 0, 40, 0.5).name('Amplitude'), [WIGGLE, RIPPLE, LIFT]);
+    addEffectSetting(hoverFolder.add(config, 'hoverRadius', 5, 150, 1).name('Radius'), [WIGGLE, RIPPLE, MAGNETIC, LIFT]);
+    addEffectSetting(hoverFolder.add(config, 'hoverSpeed', 0, 5, 0.1).name('Speed'), [WIGGLE, RIPPLE]);
+    addEffectSetting(hoverFolder.add(config, 'wiggleWaveFrequency', 0.01, 0.5, 0.01).name('Wave Frequency'), [WIGGLE]);
+    addEffectSetting(hoverFolder.add(config, 'wiggleNoiseFrequency', 0.01, 0.5, 0.01).name('Noise Frequency'), [WIGGLE]);
+    addEffectSetting(hoverFolder.add(config, 'rippleWavelength', 2, 100, 1).name('Wavelength'), [RIPPLE]);
+    addEffectSetting(hoverFolder.add(config, 'magneticStrength', 0, 0.95, 0.05).name('Pull'), [MAGNETIC]);
+    addEffectSetting(hoverFolder.addColor(config, 'liftGlowColor').name('Glow Color'), [LIFT]);
+    addEffectSetting(hoverFolder.add(config, 'liftGlow', 0, 1, 0.05).name('Glow'), [LIFT]);
+    toggleEffectControllerVisibility();
+
+    // --- Inspector Folder ---
+    const inspectorFolder = gui.addFolder('Inspector');
+    inspectorFolder.add(config, 'probeMode').name('Probe on Hover');
+    inspectorFolder.addColor(config, 'probeHighlightColor').name('Highlight Color');
+    inspectorFolder.add({ clearPins: clearProbePinsCallback }, 'clearPins').name('Clear Pins');
 
     const debugFolder = gui.addFolder('Debugging');
     debugFolder.add(config, 'showTerrainBorder').name('Show Border').onChange((value: boolean) => {
@@ -116,21 +390,71 @@ export function setupGUI(
         if (border) border.visible = value;
     });
 
-    gui.add({ generate: () => updateVisualizationCallback(true) }, 'generate').name('Generate New Terrain');
+    gui.add({ generate: generateTerrainCallback }, 'generate').name('Generate New Terrain');
 
     gui.add({ export: exportCallback }, 'export').name('Export PNG');
+    gui.add({ exportSVG: exportSVGCallback }, 'exportSVG').name('Export SVG');
+
+    // --- Print Export Folder ---
+    const printFolder = gui.addFolder('Print Export');
+    printFolder.add(config, 'printSizeMode', Object.values(PrintSizeModes)).name('Size');
+    printFolder.add(config, 'printWidth', 256, 16384, 1).name('Width (px)');
+    printFolder.add(config, 'printHeight', 256, 16384, 1).name('Height (px)');
+    printFolder.add(config, 'printPaper', Object.keys(PaperSizes)).name('Paper');
+    printFolder.add(config, 'printOrientation', PaperOrientations).name('Orientation');
+    printFolder.add(config, 'printDpi', 72, 600, 1).name('DPI');
+    printFolder.add(config, 'printMargin', 0, 50, 1).name('Margin (mm)');
+    printFolder.add(config, 'printTitleBlock').name('Title Block');
+    printFolder.add(config, 'printTitle').name('Title');
+    printFolder.add(config, 'printTransparent').name('Transparent Background');
+    printFolder.add({ exportPrint: exportPrintCallback }, 'exportPrint').name('Export Print PNG');
+
+    // --- Data Export Folder ---
+    const dataFolder = gui.addFolder('Data Export');
+    dataFolder.add(config, 'originEasting').name('Origin Easting (m)');
+    dataFolder.add(config, 'originNorthing').name('Origin Northing (m)');
+    dataFolder.add(config, 'metresPerUnit', 0.01, 1000).name('Metres / Unit');
+    dataFolder.add({ exportGeoJSON: exportGeoJSONCallback }, 'exportGeoJSON').name('Export GeoJSON');
+    dataFolder.add({ exportDXF: exportDXFCallback }, 'exportDXF').name('Export DXF');
+
+    // --- 3D Model Folder ---
+    const modelFolder = gui.addFolder('3D Model Export');
+    modelFolder.add(config, 'meshExportFormat', Object.values(MeshExportFormats)).name('Format');
+    modelFolder.add(config, 'meshSizeMm', 10, 1000, 1).name('Size (mm)');
+    modelFolder.add(config, 'meshExaggeration', 0.1, 10, 0.1).name('Exaggeration');
+    modelFolder.add(config, 'meshBaseMm', 0, 50, 0.5).name('Base (mm)');
+    modelFolder.add(config, 'meshTerraces').name('Terraces');
+    modelFolder.add({ exportModel: exportModelCallback }, 'exportModel').name('Export 3D Model');
+
+    // --- Recording Folder ---
+    const recordingFolder = gui.addFolder('Recording');
+    recordingFolder.add(config, 'recordFormat', Object.values(RecordingFormats)).name('Format');
+    recordingFolder.add(config, 'recordDuration', 1, 60, 1).name('Duration (s)');
+    recordingFolder.add(config, 'recordFps', 10, 60, 1).name('FPS');
+    recordingFolder.add(config, 'recordResolution', RecordingResolutions).name('Resolution');
+    recordingFolder.add(config, 'recordOrbit').name('Auto Orbit');
+    recordingFolder.add(config, 'recordOrbitDegrees', -720, 720, 15).name('Orbit (°)');
+    recordingFolder.add(config, 'recordTransparent').name('Transparent Background');
+    recordingFolder.add({ record: recordCallback }, 'record').name('Start Recording');
 
     return gui;
 }
 
+// Refreshes the controls of a folder and, recursively, of its subfolders
+function updateFolderDisplay(folder: dat.GUI): void {
+    folder.__controllers.forEach((controller: any) => controller.updateDisplay());
+    for (const name in folder.__folders) updateFolderDisplay(folder.__folders[name]);
+}
+
 // Refreshes all GUI controls to reflect current state
 export function updateGUI(): void {
     if (gui) {
-        for (const folderName in gui.__folders) {
-            const folder = gui.__folders[folderName];
-            folder.__controllers.forEach((controller: any) => controller.updateDisplay());
-        }
-         gui.__controllers.forEach((controller: any) => controller.updateDisplay());
+        updateFolderDisplay(gui);
+
+        // A restored scene replaces the stop and viewpoint lists, so rebind their controls
+        rebuildStopControllers();
+        rebuildKeyframeControllers();
+        toggleEffectControllerVisibility();
 
         // Ensure Fill Opacity controller visibility is correct on general GUI update
         // Check within the 'Contours' folder now
@@ -0,0 +1,165 @@
+import { config, baseConfig } from './config.js';
+import { getTerrainHeightParams } from './terrain.js';
+import { HeightRaster, HeightSpec, createHeightRaster } from './terrainHeights.js';
+import { parseGeoTiff } from './geotiff.js';
+
+// Pluggable elevation sources. Each one describes how the worker fills the terrain
+// grid, so contour extraction and styling work the same whatever the heights came from.
+
+export interface HeightSource {
+    readonly name: string;
+    getHeightSpec(): HeightSpec;
+    // Converts a terrain height back to the source's own elevation units (for labels)
+    toElevation(height: number): number;
+}
+
+// Imported rasters are downsampled to this size; the terrain grid is far coarser anyway
+const MAX_RASTER_SIZE = 1024;
+
+// The procedural Perlin terrain driven by config and the seed
+export const noiseHeightSource: HeightSource = {
+    name: 'Noise',
+    getHeightSpec: () => ({ kind: 'noise', params: getTerrainHeightParams() }),
+    toElevation: height => height
+};
+
+// An imported elevation raster, resampled onto the grid between the configured min and max height
+export class RasterHeightSource implements HeightSource {
+    constructor(readonly name: string, readonly raster: HeightRaster) {}
+
+    getHeightSpec(): HeightSpec {
+        return {
+            kind: 'raster',
+            raster: this.raster,
+            minHeight: config.minTerrainHeightFactor * config.terrainMaxHeight,
+            maxHeight: config.terrainMaxHeight,
+            terrainSize: config.terrainSize
+        };
+    }
+
+    // Inverts the linear mapping of resampleRasterHeights
+    toElevation(height: number): number {
+        const minHeight = config.minTerrainHeightFactor * config.terrainMaxHeight;
+        const span = config.terrainMaxHeight - minHeight;
+        const t = span > 0 ? (height - minHeight) / span : 0;
+        return this.raster.min + t * (this.raster.max - this.raster.min);
+    }
+}
+
+let activeHeightSource: HeightSource = noiseHeightSource;
+// Noise height settings to restore when switching back from an imported raster
+let savedNoiseRange: { terrainMaxHeight: number, minTerrainHeightFactor: number } | null = null;
+
+export function getActiveHeightSource(): HeightSource {
+    return activeHeightSource;
+}
+
+// Switches the elevation source, fitting the configured height range to imported rasters
+export function setActiveHeightSource(source: HeightSource): void {
+    if (source === activeHeightSource) return;
+    if (!savedNoiseRange && activeHeightSource === noiseHeightSource) {
+        savedNoiseRange = {
+            terrainMaxHeight: baseConfig.terrainMaxHeight,
+            minTerrainHeightFactor: baseConfig.minTerrainHeightFactor
+        };
+    }
+
+    activeHeightSource = source;
+    if (source instanceof RasterHeightSource) {
+        applyRasterHeightRange(source.raster);
+    } else if (savedNoiseRange) {
+        config.terrainMaxHeight = baseConfig.terrainMaxHeight = savedNoiseRange.terrainMaxHeight;
+        config.minTerrainHeightFactor = baseConfig.minTerrainHeightFactor = savedNoiseRange.minTerrainHeightFactor;
+        savedNoiseRange = null;
+    }
+}
+
+// Decodes a grayscale PNG (or any image the browser reads); brightness is elevation
+async function loadImageHeightmap(file: File): Promise<HeightRaster> {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context unavailable');
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+    const data = new Float32Array(canvas.width * canvas.height);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = (pixels[i * 4] + pixels[i * 4 + 1] + pixels[i * 4 + 2]) / 3;
+    }
+    return createHeightRaster(canvas.width, canvas.height, data, NaN, null);
+}
+
+// Parses an ESRI ASCII Grid: a key/value header followed by rows from north to south
+export function parseAsciiGrid(text: string): HeightRaster {
+    const tokens = text.trim().split(/\s+/);
+    const header: { [key: string]: number } = {};
+    let pos = 0;
+    while (pos < tokens.length && /^[a-z_]+$/i.test(tokens[pos])) {
+        header[tokens[pos].toLowerCase()] = parseFloat(tokens[pos + 1]);
+        pos += 2;
+    }
+
+    const width = header.ncols, height = header.nrows;
+    if (!(width > 0) || !(height > 0)) throw new Error('ASCII grid is missing ncols/nrows');
+    if (tokens.length - pos < width * height) throw new Error(`ASCII grid has ${tokens.length - pos} values, expected ${width * height}`);
+
+    const data = new Float32Array(width * height);
+    for (let i = 0; i < data.length; i++) data[i] = parseFloat(tokens[pos + i]);
+    const noData = header.nodata_value !== undefined ? header.nodata_value : NaN;
+    return createHeightRaster(width, height, data, noData, header.cellsize > 0 ? header.cellsize : null);
+}
+
+// Bilinearly shrinks a raster so its longest side is at most maxSize
+function limitRasterSize(raster: HeightRaster, maxSize: number): HeightRaster {
+    const scale = maxSize / Math.max(raster.width, raster.height);
+    if (scale >= 1) return raster;
+    const width = Math.max(2, Math.round(raster.width * scale));
+    const height = Math.max(2, Math.round(raster.height * scale));
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const sy = y / (height - 1) * (raster.height - 1);
+        const y0 = Math.floor(sy), y1 = Math.min(raster.height - 1, y0 + 1), ty = sy - y0;
+        for (let x = 0; x < width; x++) {
+            const sx = x / (width - 1) * (raster.width - 1);
+            const x0 = Math.floor(sx), x1 = Math.min(raster.width - 1, x0 + 1), tx = sx - x0;
+            const top = raster.data[y0 * raster.width + x0] * (1 - tx) + raster.data[y0 * raster.width + x1] * tx;
+            const bottom = raster.data[y1 * raster.width + x0] * (1 - tx) + raster.data[y1 * raster.width + x1] * tx;
+            data[y * width + x] = top * (1 - ty) + bottom * ty;
+        }
+    }
+    const cellSize = raster.cellSize !== null ? raster.cellSize * (raster.width - 1) / (width - 1) : null;
+    return { width, height, data, min: raster.min, max: raster.max, cellSize };
+}
+
+// Sets the terrain height range in config to match the raster. The lowest cell maps to
+// minTerrainHeightFactor so heights stay proportional, and when the format gives a cell
+// size the height is set to true scale (clamped to the Height slider's range).
+function applyRasterHeightRange(raster: HeightRaster): void {
+    const minFactor = raster.min > 0 && raster.max > 0 ? raster.min / raster.max : 0;
+    config.minTerrainHeightFactor = baseConfig.minTerrainHeightFactor = Math.min(0.95, minFactor);
+
+    if (raster.cellSize !== null && raster.max > 0) {
+        const groundSize = Math.min(raster.width, raster.height) * raster.cellSize;
+        const trueScaleHeight = raster.max * config.terrainSize / groundSize;
+        config.terrainMaxHeight = baseConfig.terrainMaxHeight = Math.min(300, Math.max(20, Math.round(trueScaleHeight / 5) * 5));
+    }
+}
+
+// Loads an elevation file, picking the parser from its extension
+export async function loadHeightSourceFromFile(file: File): Promise<HeightSource> {
+    const extension = file.name.split('.').pop()!.toLowerCase();
+    let raster: HeightRaster;
+    if (extension === 'asc') {
+        raster = parseAsciiGrid(await file.text());
+    } else if (extension === 'tif' || extension === 'tiff') {
+        raster = await parseGeoTiff(await file.arrayBuffer());
+    } else {
+        raster = await loadImageHeightmap(file);
+    }
+
+    return new RasterHeightSource(file.name, limitRasterSize(raster, MAX_RASTER_SIZE));
+}
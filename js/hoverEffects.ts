@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+import { config, HoverEffects } from './config.js';
+import hoverEffectVertexChunk from '../shaders/hoverEffectVertex.glsl?raw';
+import hoverEffectFragmentChunk from '../shaders/hoverEffectFragment.glsl?raw';
+
+// Hover interaction effects for the contour lines. Every line material gets the same
+// shader chunk and shares one set of uniforms, so the effects run on the GPU for every
+// style; each frame only the hovered point, time and an eased strength are updated.
+
+// Shader index of each effect, matching u_hoverEffect in hoverEffectVertex.glsl
+const EFFECT_INDEX: { [effect: string]: number } = {
+    [HoverEffects.OFF]: 0,
+    [HoverEffects.WIGGLE]: 1,
+    [HoverEffects.RIPPLE]: 2,
+    [HoverEffects.MAGNETIC]: 3,
+    [HoverEffects.LIFT]: 4
+};
+
+// Seconds for an effect to fade in or out as the hover starts or ends
+const FADE_SECONDS = 0.25;
+
+const hoverUniforms = {
+    u_hoverEffect: { value: 0 },
+    u_hoverPoint: { value: new THREE.Vector3() },
+    u_hoverStrength: { value: 0 },
+    u_hoverTime: { value: 0 },
+    u_hoverAmplitude: { value: 0 },
+    u_hoverRadius: { value: 1 },
+    u_hoverSpeed: { value: 1 },
+    u_wiggleWaveFrequency: { value: 0 },
+    u_wiggleNoiseFrequency: { value: 0 },
+    u_rippleWavelength: { value: 1 },
+    u_magneticStrength: { value: 0 },
+    u_liftGlow: { value: 0 },
+    u_liftGlowColor: { value: new THREE.Color() }
+};
+
+// Adds the hover effect to a line material built on three's LineMaterial shaders (or the
+// fading copies in /shaders): segment ends are displaced before use and the glow is mixed
+// into the final colour. Call before the material is first rendered.
+export function addHoverEffect(material: THREE.ShaderMaterial): void {
+    const vertexMain = material.vertexShader.indexOf('void main()');
+    const vertexBody = material.vertexShader.slice(vertexMain)
+        .replace(/\binstanceStart\b/g, 'hoverStart')
+        .replace(/\binstanceEnd\b/g, 'hoverEnd')
+        .replace('{', `{
+    vec3 hoverStart = applyHoverEffect(instanceStart);
+    vec3 hoverEnd = applyHoverEffect(instanceEnd);
+    vHoverGlow = hoverGlow((position.y < 0.5) ? instanceStart : instanceEnd);`);
+    material.vertexShader = material.vertexShader.slice(0, vertexMain) + hoverEffectVertexChunk + '\n' + vertexBody;
+
+    const fragmentMain = material.fragmentShader.indexOf('void main()');
+    const fragmentBody = material.fragmentShader.slice(fragmentMain)
+        .replace(/(gl_FragColor = [^;]*;)/, '$1\n    gl_FragColor.rgb = mix(gl_FragColor.rgb, u_liftGlowColor, vHoverGlow);');
+    material.fragmentShader = material.fragmentShader.slice(0, fragmentMain) + hoverEffectFragmentChunk + '\n' + fragmentBody;
+
+    Object.assign(material.uniforms, hoverUniforms);
+    material.needsUpdate = true;
+}
+
+// Moves the effect to the hovered point (null once the cursor leaves the lines, which
+// fades it out where it was) and copies the GUI settings into the shared uniforms
+export function updateHoverEffect(point: THREE.Vector3 | null, deltaSeconds: number): void {
+    const uniforms = hoverUniforms;
+    const target = point && config.hoverEffect !== HoverEffects.OFF ? 1 : 0;
+    const step = deltaSeconds / FADE_SECONDS;
+    uniforms.u_hoverStrength.value = THREE.MathUtils.clamp(uniforms.u_hoverStrength.value + (target ? step : -step), 0, 1);
+    if (point) uniforms.u_hoverPoint.value.copy(point);
+    // The clock restarts with each hover, so it never grows past what the shader's floats hold well
+    uniforms.u_hoverTime.value = uniforms.u_hoverStrength.value > 0 ? uniforms.u_hoverTime.value + deltaSeconds : 0;
+
+    // An effect switched off mid-hover keeps drawing until it has faded out
+    if (config.hoverEffect !== HoverEffects.OFF || uniforms.u_hoverStrength.value === 0) {
+        uniforms.u_hoverEffect.value = EFFECT_INDEX[config.hoverEffect] ?? 0;
+    }
+    uniforms.u_hoverAmplitude.value = config.hoverAmplitude;
+    uniforms.u_hoverRadius.value = Math.max(config.hoverRadius, 1e-3);
+    uniforms.u_hoverSpeed.value = config.hoverSpeed;
+    uniforms.u_wiggleWaveFrequency.value = config.wiggleWaveFrequency;
+    uniforms.u_wiggleNoiseFrequency.value = config.wiggleNoiseFrequency;
+    uniforms.u_rippleWavelength.value = Math.max(config.rippleWavelength, 1e-3);
+    uniforms.u_magneticStrength.value = config.magneticStrength;
+    uniforms.u_liftGlow.value = config.liftGlow;
+    uniforms.u_liftGlowColor.value.set(config.liftGlowColor);
+}
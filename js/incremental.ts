@@ -0,0 +1,11 @@
+// Long-running steps are written as generators that yield their progress (0-1),
+// so the worker can pause between chunks to post progress and notice cancellation.
+export type ProgressTask<T> = Generator<number, T, void>;
+
+// Runs a task synchronously, ignoring progress
+export function runToCompletion<T>(task: ProgressTask<T>): T {
+    for (;;) {
+        const step = task.next();
+        if (step.done) return step.value;
+    }
+}
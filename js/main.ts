@@ -1,21 +1,82 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { config, baseConfig, randomRanges, updateDerivedConfig, baseContourColor as configBaseContourColor, fadeToBgColor as configFadeToBgColor, Styles } from './config.js';
+import { config, baseConfig, randomRanges, updateDerivedConfig, baseContourColor as configBaseContourColor, fadeToBgColor as configFadeToBgColor, Styles, CameraModes, HoverEffects, SculptTools } from './config.js';
 // @ts-ignore – importing JS module with runtime exports unknown to TypeScript
-import { generateTerrain, generateContourLines, createTerrainBorder, randomizeTerrainSettings } from './terrain.js';
-import { initScene, updateFog, updateControls, disposeScene, camera as sceneCamera } from './scene.js';
+import { generateTerrain, generateContourLines, createTerrainBorder, randomizeTerrainSettings, createTerrainGeometry, getContourOptions, getErosionParams, getContourLinesGroup, getContourLabelsGroup, setContourLineResolution, advanceTerrainAnimation, resetTerrainAnimation, highlightContourLevel, replaceTerrainGeometry } from './terrain.js';
+import { LineSegments2 } from 'three/addons/lines/LineSegments2.js';
+import { initScene, updateFog, updateControls, disposeScene, camera as sceneCamera, orbitTarget, getViewportSize, setCameraMode, setCameraFov } from './scene.js';
 import { setupGUI, updateGUI } from './gui.js';
+import { random, setRandomSeed, createRandomSeed } from './random.js';
+import { TerrainMorph, createTerrainMorph, getMorphProgress, blendMorphHeights, blendMorphColors } from './morph.js';
+import { readSceneStateFromHash, writeSceneStateToHash } from './sceneState.js';
+import { buildContourSVG } from './svgExport.js';
+import { buildContourGeoJSON, buildContourDXF } from './dataExport.js';
+import { exportTerrainModel } from './meshExport.js';
+import { updateContourLabelRotations, formatElevation } from './contourLabels.js';
+import { writeColorRampTexture, flatColorRamp } from './colorRamps.js';
+import { updateTerrainFillMaterial } from './terrainFill.js';
+import { runTerrainJob, waitForTerrainJobs, cancelTerrainJob } from './terrainWorkerClient.js';
+import { renderPrintPNG } from './printExport.js';
+import { recordAnimation, isRecording, isSteppingFrames, isRecordingTransparent } from './recording.js';
+import { ContourOptions, ContourPolyline, ContourTiles, createContourTiles, updateContourTiles, getContourTilePolylines } from './contours.js';
+import { Flythrough, createFlythrough, sampleFlythrough, isFlythroughFinished } from './cameraPath.js';
+import { updateHoverEffect } from './hoverEffects.js';
+import { isSculpting, beginSculptStroke, applySculptBrush, endSculptStroke, undoSculpt, redoSculpt } from './sculpt.js';
+import { ProbeResult, probeScene, showProbeTooltip, addProbePin, clearProbePins, updateProbePins } from './probe.js';
+import { getActiveHeightSource, setActiveHeightSource, noiseHeightSource, loadHeightSourceFromFile } from './heightSources.js';
+import { sampleGridHeights } from './terrainHeights.js';
 
 let scene: THREE.Scene;
 let renderer: THREE.WebGLRenderer;
 let controls: OrbitControls;
 let terrainMesh: THREE.Mesh | null;
 let terrainBorder: THREE.Line | null;
-let contourLinesGroup: THREE.Group;
+let contourLinesGroup: THREE.Group = getContourLinesGroup();
+// Flat grid waiting for the worker to fill in its heights; the previous mesh stays visible meanwhile
+let pendingTerrainGeometry: THREE.PlaneGeometry | null = null;
+// Morph from the previous landscape in progress, and the colours a requested morph starts from
+let terrainMorph: TerrainMorph | null = null;
+let morphStartColors: { background: string, contour: string } | null = null;
+let morphContoursInFlight = false;
+let terrainUpdateCount = 0; // Identifies the latest full update, whose progress the banner shows
+// When auto-cycle last started a landscape (or the last morph settled)
+let lastCycleTime = performance.now();
+// Animation clock (ms): wall time, or the fixed-step time while a PNG sequence is recorded
+let frameTime = performance.now();
+// Breathing terrain: one update in flight at a time, its resolution adapted to config.breathingBudgetMs
+let breathingSegments = config.terrainSegments;
+let breathingInFlight = false;
+let lastFrameTime = performance.now();
+// Camera flythrough through the saved viewpoints; the orbit controls are off while it plays
+let flythrough: Flythrough | null = null;
+// Contours cached per tile for sculpting, so each brush step only rescans its tiles. Kept
+// between strokes while the heights (position version) and contour settings are unchanged.
+let sculptTiles: ContourTiles | null = null;
+let sculptTilesVersion = -1;
+const morphBackgroundColor = new THREE.Color();
+const morphContourColor = new THREE.Color();
+
+// --- Live Preview State ---
+let previewSegments = Math.round(config.terrainSegments / 4); // Adapted to config.previewBudgetMs
+let previewInFlight = false;
+let previewQueued: { updateStyleOnly: boolean } | null = null;
+let previewGeneration = 0; // Bumped by full updates so late previews are dropped
 let raycaster: THREE.Raycaster;
 let mouse: THREE.Vector2;
 let hoveredPoint: THREE.Vector3 | null = null;
-let hasMouseMoved: boolean = false;
+let hasPointer: boolean = false; // A mouse has moved over the page, or a finger is down
+let sceneStateSaveTimer: number | undefined;
+
+// --- Inspector Probe State ---
+let probeResult: ProbeResult | null = null;
+let probeOnCanvas = false; // Cursor over the canvas rather than the GUI
+let probeDirty = true;
+const probeClient = new THREE.Vector2(); // Cursor in client pixels, where the tooltip goes
+const probePointerDown = new THREE.Vector2();
+// Probing raycasts the whole terrain, so it reruns only when the cursor, view or terrain changes
+const lastProbeCameraMatrix = new THREE.Matrix4();
+let lastProbeGeometry: THREE.BufferGeometry | null = null;
+let lastProbeVersion = -1;
 
 let baseContourColor = new THREE.Color(config.contourColor);
 let fadeToBgColor = new THREE.Color(config.backgroundColor);
@@ -61,7 +122,7 @@ function generateRandomContrastingColor(backgroundHex: string, minContrast: numb
     const backgroundRgb = hexToRgb(backgroundHex);
     if (!backgroundRgb) {
         console.error("Invalid background color for contrast check.");
-        return `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`; // fallback
+        return `#${Math.floor(random() * 16777215).toString(16).padStart(6, '0')}`; // fallback
     }
 
     let attempts = 0;
@@ -70,9 +131,9 @@ function generateRandomContrastingColor(backgroundHex: string, minContrast: numb
     while (attempts < maxAttempts) {
         attempts++;
         // Generate random color favoring higher saturation/lightness for better contrast chance
-        const h = Math.random();
-        const s = 0.6 + Math.random() * 0.4; // Saturation between 0.6 and 1.0
-        const l = 0.4 + Math.random() * 0.4; // Lightness between 0.4 and 0.8
+        const h = random();
+        const s = 0.6 + random() * 0.4; // Saturation between 0.6 and 1.0
+        const l = 0.4 + random() * 0.4; // Lightness between 0.4 and 0.8
         const tempColor = new THREE.Color().setHSL(h, s, l);
         const randomHex = `#${tempColor.getHexString()}`;
         const randomRgb = { r: tempColor.r * 255, g: tempColor.g * 255, b: tempColor.b * 255 };
@@ -85,63 +146,177 @@ function generateRandomContrastingColor(backgroundHex: string, minContrast: numb
 
     console.warn(`Could not find a color with ${minContrast}:1 contrast after ${maxAttempts} attempts. Using last generated color.`);
     // Fallback to the last generated color if no contrasting one is found quickly
-    const fallbackColor = new THREE.Color().setHSL(Math.random(), 0.7, 0.6);
+    const fallbackColor = new THREE.Color().setHSL(random(), 0.7, 0.6);
      return `#${fallbackColor.getHexString()}`;
 }
 
 // Initializes Three.js scene, terrain and GUI controls
 function init(): void {
+    // Settings from a shared link must be in place before the scene reads them
+    const restoredCamera = readSceneStateFromHash();
+
     const sceneElements = initScene(document.body);
     scene = sceneElements.scene;
     renderer = sceneElements.renderer;
     controls = sceneElements.controls;
 
+    if (restoredCamera) applyRestoredCamera(restoredCamera);
     updateVisualization();
 
-    const infoElement = document.getElementById('info');
-    if (infoElement) infoElement.style.display = 'none';
-
     setupGUI(
         updateVisualization,
+        previewVisualization,
+        generateNewTerrain,
         exportToPNG,
+        exportToSVG,
+        exportPrintPNG,
+        exportToGeoJSON,
+        exportToDXF,
+        exportTerrainModelFile,
+        recordToFile,
+        saveCameraKeyframe,
+        goToCameraKeyframe,
+        toggleFlythrough,
+        clearProbePins,
+        undoSculptStroke,
+        redoSculptStroke,
+        importElevationFile,
+        useNoiseTerrain,
         () => terrainBorder,
         handleContourColorChange,
         handleBackgroundColorChange,
         updateFadingLinesFogUniforms,
+        updateTerrainMaterial,
         contourLinesGroup
     );
 
     // --- Hover Interactivity Setup ---
     raycaster = new THREE.Raycaster();
-    // Increase line intersection threshold so hovering is easier
-    (raycaster.params as any).Line = { threshold: 5 };
+    // Increase line intersection threshold (in pixels for screen-space lines) so hovering is easier
+    raycaster.params.Line2 = { threshold: 5 };
 
     mouse = new THREE.Vector2();
-    window.addEventListener('mousemove', (event: MouseEvent) => {
-        hasMouseMoved = true;
+    // Pointer events, so a finger drives the hover effects and the probe as the mouse does
+    const onPointerMove = (event: PointerEvent) => {
+        hasPointer = true;
         // Convert screen coords to normalized device coords (-1 to +1)
         mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
         mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+        probeClient.set(event.clientX, event.clientY);
+        probeOnCanvas = event.target === renderer.domElement;
+        probeDirty = true;
+    };
+    window.addEventListener('pointermove', onPointerMove);
+    renderer.domElement.addEventListener('pointerleave', (event: PointerEvent) => {
+        if (event.pointerType === 'mouse') probeOnCanvas = false;
+    });
+    // A lifted finger stops the effect; the probe readout stays where it was to be read
+    const onPointerEnd = (event: PointerEvent) => {
+        if (event.pointerType !== 'mouse') hasPointer = false;
+    };
+
+    // A click or tap (not the end of a drag) pins the probed point
+    renderer.domElement.addEventListener('pointerdown', (event: PointerEvent) => {
+        onPointerMove(event); // Touches have no hover, so the point starts here
+        probePointerDown.set(event.clientX, event.clientY);
+        if (event.button === 0) startSculptStroke();
+    });
+    renderer.domElement.addEventListener('pointerup', (event: PointerEvent) => {
+        onPointerEnd(event);
+        if (!config.probeMode) return;
+        if (Math.hypot(event.clientX - probePointerDown.x, event.clientY - probePointerDown.y) > 4) return;
+        updateProbe(); // A quick tap can end before a frame has probed its point
+        if (probeResult) addProbePin(probeResult, probeToElevation);
+    });
+    renderer.domElement.addEventListener('pointercancel', onPointerEnd);
+    // The stroke ends wherever the pointer is released
+    window.addEventListener('pointerup', finishSculptStroke);
+    window.addEventListener('pointercancel', finishSculptStroke);
+
+    // Ctrl/Cmd+Z undoes a sculpt stroke; with Shift, or Ctrl+Y, it is redone
+    window.addEventListener('keydown', (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) return;
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+            undoSculptStroke();
+        } else if (key === 'y' || key === 'z') {
+            redoSculptStroke();
+        } else {
+            return;
+        }
+        event.preventDefault();
+    });
+
+    // --- Shareable URL State ---
+    controls.addEventListener('end', scheduleSceneStateSave);
+    // GUI edits don't all go through updateVisualization, so save after any interaction
+    window.addEventListener('pointerup', scheduleSceneStateSave);
+    window.addEventListener('keyup', scheduleSceneStateSave);
+    window.addEventListener('change', scheduleSceneStateSave);
+    window.addEventListener('hashchange', () => {
+        const camera = readSceneStateFromHash();
+        if (!camera) return;
+        stopFlythrough();
+        setCameraFov(config.cameraFov);
+        setCameraMode(config.cameraMode);
+        applyRestoredCamera(camera);
+        updateVisualization();
     });
 
     animate();
 }
 
+// Moves the camera and orbit target to a restored view; missing fields keep the current view
+function applyRestoredCamera(camera: { position?: number[], target?: number[], zoom?: number }): void {
+    if (camera.position) sceneCamera.position.fromArray(camera.position);
+    if (camera.target) orbitTarget.fromArray(camera.target);
+    if (camera.zoom && sceneCamera instanceof THREE.OrthographicCamera) {
+        sceneCamera.zoom = camera.zoom;
+        sceneCamera.updateProjectionMatrix();
+    }
+    updateControls();
+}
+
+// Debounces writing the scene state into the URL hash
+function scheduleSceneStateSave(): void {
+    window.clearTimeout(sceneStateSaveTimer);
+    sceneStateSaveTimer = window.setTimeout(() => {
+        // Mid-morph the colours in config are blended; cancelTerrainMorph saves once they settle
+        if (sceneCamera && !terrainMorph) writeSceneStateToHash(sceneCamera, orbitTarget);
+    }, 300);
+}
+
 // Regenerates terrain and updates all visual elements
 function updateVisualization(shouldRandomize: boolean = false, updateStyleOnly: boolean = false): void {
     console.log(`Updating visualization... (Randomize: ${shouldRandomize}, Style Only: ${updateStyleOnly})`);
 
+    // A full update supersedes any live preview still running or queued
+    previewGeneration++;
+    previewQueued = null;
+
+    // New random landscapes morph in from the current one, starting at the colours on screen
+    morphStartColors = shouldRandomize && !updateStyleOnly && config.morphDuration > 0 && terrainMesh
+        ? { background: config.backgroundColor, contour: config.contourColor }
+        : null;
+    // A morph interrupted by another one continues from the heights on screen
+    cancelTerrainMorph(!morphStartColors);
+
     // --- Terrain Data Generation --- // & Color Randomization
     if (!updateStyleOnly) {
         // Only regenerate terrain geometry if updateStyleOnly is false
         if (shouldRandomize) {
+            // A new random landscape is always procedural
+            setActiveHeightSource(noiseHeightSource);
+            resetTerrainAnimation();
+            // Replay the seeded sequence so the same seed always yields the same settings and colours
+            setRandomSeed(config.seed);
             randomizeTerrainSettings();
 
             // --- Generate New Random Background Color ---
             // Favor lighter colors for background (higher lightness)
-            const hBg = Math.random();
-            const sBg = 0.3 + Math.random() * 0.4; // Saturation between 0.3 and 0.7
-            const lBg = 0.75 + Math.random() * 0.2; // Lightness between 0.75 and 0.95
+            const hBg = random();
+            const sBg = 0.3 + random() * 0.4; // Saturation between 0.3 and 0.7
+            const lBg = 0.75 + random() * 0.2; // Lightness between 0.75 and 0.95
             const newBgColorThree = new THREE.Color().setHSL(hBg, sBg, lBg);
             const newBackgroundColor = `#${newBgColorThree.getHexString()}`;
             config.backgroundColor = newBackgroundColor;
@@ -152,6 +327,10 @@ function updateVisualization(shouldRandomize: boolean = false, updateStyleOnly:
             // Ensure contour contrasts with the *new* background
             config.contourColor = generateRandomContrastingColor(config.backgroundColor);
             console.log("New contour color:", config.contourColor);
+            // Index contours use a darker shade of the same hue
+            const indexHSL = { h: 0, s: 0, l: 0 };
+            new THREE.Color(config.contourColor).getHSL(indexHSL);
+            config.indexContourColor = `#${new THREE.Color().setHSL(indexHSL.h, indexHSL.s, indexHSL.l * 0.7).getHexString()}`;
             // -------------------------------------------
 
             // Sync baseConfig with randomized values for GUI display
@@ -160,29 +339,13 @@ function updateVisualization(shouldRandomize: boolean = false, updateStyleOnly:
             baseConfig.minTerrainHeightFactor = config.minTerrainHeightFactor;
             baseConfig.contourInterval = config.contourInterval; // Keep interval sync? Might not be needed if not randomized here.
         } else {
-            // Update config from GUI if not randomizing
-            config.terrainMaxHeight = baseConfig.terrainMaxHeight;
-            config.noiseScale = baseConfig.noiseScale;
-            config.minTerrainHeightFactor = baseConfig.minTerrainHeightFactor;
-             // config.contourInterval = baseConfig.contourInterval; // Interval is handled separately now
+            applyBaseConfig();
         }
 
         updateDerivedConfig();
 
-        // Regenerate terrain mesh
-        const newTerrainMesh = generateTerrain(); // This uses config values
-        // Remove old mesh if it exists
-        if (terrainMesh && terrainMesh.parent) {
-            scene.remove(terrainMesh);
-            // Ensure geometry and material are disposed if replaced
-            terrainMesh.geometry.dispose();
-            (terrainMesh.material as THREE.Material).dispose();
-        }
-        terrainMesh = newTerrainMesh;
-        // Add the new mesh to the scene
-        if (terrainMesh && !terrainMesh.parent && scene) {
-            scene.add(terrainMesh);
-        }
+        // Heights are generated in the worker along with the contours (see requestTerrainUpdate)
+        pendingTerrainGeometry = createTerrainGeometry();
 
         // Also update the terrain border if geometry changed
         terrainBorder = createTerrainBorder(scene);
@@ -195,69 +358,16 @@ function updateVisualization(shouldRandomize: boolean = false, updateStyleOnly:
 
 
     // --- Visual Representation Update (Contours, Materials) ---
-    // Always regenerate contours based on the CURRENT terrainMesh geometry
-    if (terrainMesh && terrainMesh.geometry) {
-        // Update material/visibility of the main terrain mesh based on style
-        if (config.style === Styles.FILLED_MOUNTAIN) {
-             if (!(terrainMesh.material instanceof THREE.MeshBasicMaterial)) {
-                 // Dispose old material if different type
-                 if (terrainMesh.material) (terrainMesh.material as THREE.Material).dispose();
-                 terrainMesh.material = new THREE.MeshBasicMaterial({
-                     color: config.contourColor, // Use contour color for filled style
-                     transparent: true,
-                     opacity: config.fillOpacity, // Use config value
-                 });
-             } else {
-                 // Just update color and transparency if already correct material type
-                 const material = terrainMesh.material as THREE.MeshBasicMaterial;
-                 material.color.set(config.contourColor);
-                 material.transparent = true;
-                 material.opacity = config.fillOpacity; // Use config value
-             }
-             terrainMesh.visible = true;
-        } else {
-            terrainMesh.visible = false; // Hide mesh for line-based styles
-            // Dispose mesh material if not needed? Optional optimization.
-            // if (terrainMesh.material) (terrainMesh.material as THREE.Material).dispose();
-            // terrainMesh.material = new THREE.MeshBasicMaterial({ visible: false }); // Or simply hide
-        }
-
-
-        // Apply color changes from GUI *before* regenerating contours/materials
-        // so the generators receive the correct base colors.
-        handleContourColorChange(config.contourColor);
-        handleBackgroundColorChange(config.backgroundColor);
-
-        // Regenerate contour lines based on current geometry and style
-        const newContourGroup = generateContourLines(
-            terrainMesh!.geometry,
-            baseContourColor,      // Pass current color
-            config.lineOpacity,    // Pass line opacity
-            config.style           // Pass current style
-        );
-        if (contourLinesGroup && contourLinesGroup.parent) {
-            scene.remove(contourLinesGroup);
-            // Potentially dispose old contour geometries/materials here if needed
-             if (contourLinesGroup.userData.sharedMaterial) {
-                 (contourLinesGroup.userData.sharedMaterial as THREE.Material).dispose();
-             }
-             contourLinesGroup.children.forEach(child => {
-                 if ((child as THREE.LineSegments).geometry) {
-                     (child as THREE.LineSegments).geometry.dispose();
-                 }
-             });
-        }
-        contourLinesGroup = newContourGroup;
-        if (contourLinesGroup && !contourLinesGroup.parent && scene) {
-            scene.add(contourLinesGroup);
-             // Lines are now always visible regardless of style
-             contourLinesGroup.visible = true;
-        }
+    updateTerrainMaterial();
 
-    } else {
-         console.warn("Cannot update visuals: terrainMesh or geometry missing.");
-     }
+    // Apply color changes from GUI *before* regenerating contours/materials
+    // so the generators receive the correct base colors.
+    // (a pending morph keeps the current colours and blends towards the new ones)
+    handleContourColorChange(morphStartColors ? morphStartColors.contour : config.contourColor);
+    handleBackgroundColorChange(morphStartColors ? morphStartColors.background : config.backgroundColor);
 
+    // Contours are always regenerated, from the pending terrain or the CURRENT terrainMesh geometry
+    requestTerrainUpdate();
 
     // --- Scene Updates ---
     // updateFog(); // Fog color updated in handleBackgroundColorChange
@@ -270,9 +380,347 @@ function updateVisualization(shouldRandomize: boolean = false, updateStyleOnly:
     // --- GUI Update ---
     updateGUI(); // Refresh GUI to show potentially randomized/updated values
 
+    scheduleSceneStateSave(); // Keep the shareable URL in sync
+
     console.log("Update complete.");
 }
 
+// Update config from GUI if not randomizing
+function applyBaseConfig(): void {
+    config.terrainMaxHeight = baseConfig.terrainMaxHeight;
+    config.noiseScale = baseConfig.noiseScale;
+    config.minTerrainHeightFactor = baseConfig.minTerrainHeightFactor;
+     // config.contourInterval = baseConfig.contourInterval; // Interval is handled separately now
+}
+
+// Rebuilds terrain and contours on a coarse grid while a slider is being dragged. Contour-only
+// changes trace the surface on screen (sculpted or breathing) sampled onto that grid, so the
+// lines don't jump when the final update runs. Only one preview runs at a time; changes made meanwhile are coalesced into the next one.
+// The grid resolution adapts so each preview comes back within config.previewBudgetMs.
+function previewVisualization(updateStyleOnly: boolean = false): void {
+    if (previewInFlight) {
+        // Keep the strongest request: a terrain change also covers contour-only changes
+        previewQueued = { updateStyleOnly: updateStyleOnly && (!previewQueued || previewQueued.updateStyleOnly) };
+        return;
+    }
+    if (!updateStyleOnly) applyBaseConfig();
+
+    const generation = previewGeneration;
+    const segments = Math.min(previewSegments, config.terrainSegments);
+    const geometry = createTerrainGeometry(segments);
+    const positions = geometry.attributes.position.array as Float32Array;
+    const traceMesh = updateStyleOnly && !!terrainMesh;
+    if (traceMesh) sampleGridHeights(positions, terrainMesh!.geometry.attributes.position.array, config.terrainSize);
+    const startTime = performance.now();
+    previewInFlight = true;
+
+    runTerrainJob({
+        positions,
+        index: geometry.index!.array as Uint16Array | Uint32Array,
+        rowLength: segments + 1,
+        heights: traceMesh ? null : getActiveHeightSource().getHeightSpec(),
+        erosion: traceMesh ? null : getErosionParams(segments),
+        contours: getContourOptions()
+    }).then(result => {
+        previewInFlight = false;
+        if (!result || generation !== previewGeneration) return; // Superseded by a full update
+
+        // Contour-only previews keep the full-resolution mesh, which the final update reuses
+        if (!updateStyleOnly) {
+            positions.set(result.positions);
+            applyTerrainMesh(generateTerrain(geometry));
+        }
+        applyContourLines(result.polylines);
+
+        // Adapt the preview resolution to the time budget
+        const elapsed = performance.now() - startTime;
+        if (elapsed > config.previewBudgetMs) {
+            previewSegments = Math.max(16, Math.floor(previewSegments * 0.75));
+        } else if (elapsed < config.previewBudgetMs / 2) {
+            previewSegments = Math.min(config.terrainSegments, Math.ceil(previewSegments * 1.25));
+        }
+
+        if (previewQueued) {
+            const queued = previewQueued;
+            previewQueued = null;
+            previewVisualization(queued.updateStyleOnly);
+        }
+    });
+}
+
+// Moves the breathing terrain on and, when the worker is free, regenerates its heights and
+// contours at the new time. Erosion is skipped while animating; the grid coarsens when an
+// update misses config.breathingBudgetMs so the lines keep flowing at interactive rates.
+function updateBreathingTerrain(deltaSeconds: number): void {
+    if (!config.breathing || getActiveHeightSource() !== noiseHeightSource) return;
+    // Breathing regenerates the heights, so it waits for a sculpt stroke (and then replaces it)
+    if (terrainMorph || pendingTerrainGeometry || previewInFlight || isSculpting()) return;
+    advanceTerrainAnimation(deltaSeconds);
+    if (breathingInFlight) return;
+
+    const generation = previewGeneration;
+    // Recorded frames don't adapt, so the output doesn't depend on the machine's speed
+    const stepping = isSteppingFrames();
+    const segments = stepping ? config.terrainSegments : Math.min(breathingSegments, config.terrainSegments);
+    const geometry = createTerrainGeometry(segments);
+    const startTime = performance.now();
+    breathingInFlight = true;
+
+    runTerrainJob({
+        positions: geometry.attributes.position.array as Float32Array,
+        index: geometry.index!.array as Uint16Array | Uint32Array,
+        rowLength: segments + 1,
+        heights: noiseHeightSource.getHeightSpec(),
+        erosion: null,
+        contours: getContourOptions()
+    }).then(result => {
+        breathingInFlight = false;
+        // Dropped when a full update, preview or morph has taken over in the meantime
+        if (!result || generation !== previewGeneration || !config.breathing || terrainMorph) return;
+
+        (geometry.attributes.position.array as Float32Array).set(result.positions);
+        if (!replaceTerrainGeometry(geometry)) applyTerrainMesh(generateTerrain(geometry));
+        applyContourLines(result.polylines);
+
+        if (stepping) return;
+        const elapsed = performance.now() - startTime;
+        if (elapsed > config.breathingBudgetMs) {
+            breathingSegments = Math.max(16, Math.floor(segments * 0.85));
+        } else if (elapsed < config.breathingBudgetMs / 2) {
+            breathingSegments = Math.min(config.terrainSegments, Math.ceil(segments * 1.1));
+        }
+    });
+}
+
+// Updates material/visibility of the main terrain mesh based on style
+function updateTerrainMaterial(): void {
+    if (!terrainMesh) return;
+    if (config.style === Styles.FILLED_MOUNTAIN) {
+        // Fill colour (flat or elevation ramp) with optional hillshade, under scene fog
+        const current = terrainMesh.material instanceof THREE.ShaderMaterial ? terrainMesh.material : null;
+        if (!current && terrainMesh.material) (terrainMesh.material as THREE.Material).dispose();
+        terrainMesh.material = updateTerrainFillMaterial(current, config.fillOpacity);
+        terrainMesh.visible = true;
+    } else {
+        terrainMesh.visible = false; // Hide mesh for line-based styles
+    }
+}
+
+// Generates heights (for a pending terrain) and contours in the worker, then swaps
+// the results into the scene. A newer request cancels this one.
+function requestTerrainUpdate(): void {
+    const geometry = pendingTerrainGeometry || (terrainMesh ? terrainMesh.geometry : null);
+    if (!geometry || !geometry.index) {
+        console.warn("Cannot update visuals: terrainMesh or geometry missing.");
+        return;
+    }
+    const needsHeights = geometry === pendingTerrainGeometry;
+    const updateNumber = ++terrainUpdateCount;
+
+    runTerrainJob({
+        positions: geometry.attributes.position.array as Float32Array,
+        index: geometry.index.array as Uint16Array | Uint32Array,
+        rowLength: config.terrainSegments + 1,
+        heights: needsHeights ? getActiveHeightSource().getHeightSpec() : null,
+        erosion: needsHeights ? getErosionParams() : null,
+        contours: getContourOptions()
+    }, showProgress).then(result => {
+        // Superseded or cancelled; the banner stays only while a newer full update runs
+        if (!result) {
+            if (updateNumber === terrainUpdateCount) showProgress(null);
+            return;
+        }
+        showProgress(null);
+
+        if (needsHeights) {
+            const positions = geometry.attributes.position.array as Float32Array;
+            const previous = terrainMesh ? terrainMesh.geometry.attributes.position.array as Float32Array : null;
+            pendingTerrainGeometry = null;
+            if (morphStartColors && previous && previous.length === positions.length) {
+                // Start from the old heights; updateTerrainMorph blends in the new ones and their contours
+                terrainMorph = createTerrainMorph(previous, result.positions, morphStartColors,
+                    { background: config.backgroundColor, contour: config.contourColor }, config.morphDuration, frameTime);
+                morphStartColors = null;
+                positions.set(terrainMorph.from);
+                applyTerrainMesh(generateTerrain(geometry));
+                return;
+            }
+            morphStartColors = null;
+            positions.set(result.positions);
+            applyTerrainMesh(generateTerrain(geometry));
+        }
+        applyContourLines(result.polylines);
+    });
+}
+
+// Advances the landscape morph: blends heights and colours, and keeps one contour job
+// running on the blended surface so the lines follow as fast as the worker allows
+function updateTerrainMorph(): void {
+    if (!terrainMorph || !terrainMesh) return;
+    const morph = terrainMorph;
+    const t = getMorphProgress(morph, frameTime);
+
+    const geometry = terrainMesh.geometry;
+    blendMorphHeights(morph, t, geometry.attributes.position.array as Float32Array);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.computeVertexNormals();
+
+    // Colours go through config so fog, shaders and the fill all pick them up
+    blendMorphColors(morph, t, morphBackgroundColor, morphContourColor);
+    config.backgroundColor = `#${morphBackgroundColor.getHexString()}`;
+    config.contourColor = `#${morphContourColor.getHexString()}`;
+    handleBackgroundColorChange(config.backgroundColor);
+    handleContourColorChange(config.contourColor);
+    updateTerrainMaterial();
+
+    if (t >= 1) {
+        cancelTerrainMorph();
+        lastCycleTime = frameTime;
+        requestTerrainUpdate(); // Final contours at the new heights
+        return;
+    }
+
+    if (!morphContoursInFlight) {
+        morphContoursInFlight = true;
+        runTerrainJob({
+            positions: geometry.attributes.position.array as Float32Array,
+            index: geometry.index!.array as Uint16Array | Uint32Array,
+            rowLength: config.terrainSegments + 1,
+            heights: null,
+            erosion: null,
+            contours: getContourOptions()
+        }).then(result => {
+            morphContoursInFlight = false;
+            if (result && terrainMorph === morph) applyContourLines(result.polylines);
+        });
+    }
+}
+
+// Stops a running morph, leaving the target colours in config and, optionally, the target heights on the mesh
+function cancelTerrainMorph(snapHeights: boolean = true): void {
+    if (!terrainMorph) return;
+    config.backgroundColor = `#${terrainMorph.toBackground.getHexString()}`;
+    config.contourColor = `#${terrainMorph.toContour.getHexString()}`;
+    if (snapHeights && terrainMesh) {
+        const positions = terrainMesh.geometry.attributes.position.array as Float32Array;
+        if (positions.length === terrainMorph.to.length) {
+            positions.set(terrainMorph.to);
+            terrainMesh.geometry.attributes.position.needsUpdate = true;
+            terrainMesh.geometry.computeVertexNormals();
+        }
+    }
+    terrainMorph = null;
+    scheduleSceneStateSave();
+}
+
+// Starts a fresh random landscape (Generate New Terrain and auto-cycle)
+function generateNewTerrain(): void {
+    config.seed = createRandomSeed();
+    lastCycleTime = frameTime;
+    updateVisualization(true);
+}
+
+// Puts a freshly generated terrain mesh into the scene
+function applyTerrainMesh(newTerrainMesh: THREE.Mesh): void {
+    // Remove old mesh if it exists
+    if (terrainMesh && terrainMesh.parent) {
+        scene.remove(terrainMesh);
+        // Ensure geometry and material are disposed if replaced
+        terrainMesh.geometry.dispose();
+        (terrainMesh.material as THREE.Material).dispose();
+    }
+    terrainMesh = newTerrainMesh;
+    // Add the new mesh to the scene
+    if (terrainMesh && !terrainMesh.parent && scene) {
+        scene.add(terrainMesh);
+    }
+    updateTerrainMaterial();
+}
+
+// Rebuilds the contour line objects from extracted polylines
+function applyContourLines(polylines: ContourPolyline[]): void {
+    const newContourGroup = generateContourLines(
+        polylines,
+        baseContourColor,      // Pass current color
+        config.lineOpacity,    // Pass line opacity
+        config.style,          // Pass current style
+        level => getActiveHeightSource().toElevation(level)
+    );
+    if (contourLinesGroup && contourLinesGroup.parent) {
+        scene.remove(contourLinesGroup);
+        // Potentially dispose old contour geometries/materials here if needed
+         if (contourLinesGroup.userData.sharedMaterial) {
+             (contourLinesGroup.userData.sharedMaterial as THREE.Material).dispose();
+         }
+         if (contourLinesGroup.userData.indexMaterial) {
+             (contourLinesGroup.userData.indexMaterial as THREE.Material).dispose();
+         }
+         contourLinesGroup.children.forEach(child => {
+             if ((child as LineSegments2).geometry) {
+                 (child as LineSegments2).geometry.dispose();
+             }
+         });
+    }
+    contourLinesGroup = newContourGroup;
+    const labelsGroup = getContourLabelsGroup();
+    if (!labelsGroup.parent && scene) scene.add(labelsGroup);
+    if (contourLinesGroup && !contourLinesGroup.parent && scene) {
+        scene.add(contourLinesGroup);
+         // Lines are now always visible regardless of style
+         contourLinesGroup.visible = true;
+    }
+    updateFadingLinesFogUniforms();
+}
+
+// Shows worker progress in the info banner; null hides it
+function showProgress(progress: number | null): void {
+    const infoElement = document.getElementById('info');
+    if (!infoElement) return;
+    if (progress === null) {
+        infoElement.style.display = 'none';
+    } else {
+        infoElement.textContent = `Generating terrain and contours... ${Math.round(progress * 100)}%`;
+        infoElement.style.display = 'block';
+    }
+}
+
+function showRecordingProgress(progress: number | null): void {
+    const infoElement = document.getElementById('info');
+    if (!infoElement) return;
+    if (progress === null) {
+        infoElement.style.display = 'none';
+    } else {
+        infoElement.textContent = `Recording... ${Math.round(progress * 100)}%`;
+        infoElement.style.display = 'block';
+    }
+}
+
+// Lets the user pick a heightmap image, ESRI ASCII grid or GeoTIFF and rebuilds the terrain from it
+function importElevationFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.png,.jpg,.jpeg,.asc,.tif,.tiff';
+    input.addEventListener('change', async () => {
+        const file = input.files && input.files[0];
+        if (!file) return;
+        try {
+            setActiveHeightSource(await loadHeightSourceFromFile(file));
+            updateVisualization(false);
+        } catch (error) {
+            console.error(`Could not load elevation data from ${file.name}:`, error);
+            alert(`Could not load elevation data from ${file.name}: ${(error as Error).message}`);
+        }
+    });
+    input.click();
+}
+
+// Switches back to the procedural noise terrain
+function useNoiseTerrain(): void {
+    if (getActiveHeightSource() === noiseHeightSource) return;
+    setActiveHeightSource(noiseHeightSource);
+    updateVisualization(false);
+}
+
 // Exports current view to PNG with transparent background
 function exportToPNG(): void {
     if (!scene || !sceneCamera || !renderer) return;
@@ -291,12 +739,94 @@ function exportToPNG(): void {
     link.click();
 }
 
-// Main animation loop
+// Exports contour lines as an SVG projected through the current camera
+function exportToSVG(): void {
+    if (!scene || !sceneCamera || !renderer || !contourLinesGroup) return;
+    const canvas = renderer.domElement;
+    const fog = scene.fog instanceof THREE.Fog ? scene.fog : null;
+    const svg = buildContourSVG(contourLinesGroup, sceneCamera, fog, canvas.clientWidth, canvas.clientHeight);
+
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'topographic-export.svg');
+}
+
+// Exports the contour lines as GeoJSON features with an elevation property
+function exportToGeoJSON(): void {
+    if (!contourLinesGroup) return;
+    const source = getActiveHeightSource();
+    const geojson = buildContourGeoJSON(contourLinesGroup, level => source.toElevation(level));
+    downloadBlob(new Blob([geojson], { type: 'application/geo+json' }), 'topographic-contours.geojson');
+}
+
+// Exports the contour lines as DXF polylines, one layer per level
+function exportToDXF(): void {
+    if (!contourLinesGroup) return;
+    const source = getActiveHeightSource();
+    const dxf = buildContourDXF(contourLinesGroup, level => source.toElevation(level));
+    downloadBlob(new Blob([dxf], { type: 'application/dxf' }), 'topographic-contours.dxf');
+}
+
+// Exports the terrain as a glTF surface with contours, or a printable STL/OBJ solid
+function exportTerrainModelFile(): void {
+    if (!terrainMesh || !contourLinesGroup) return;
+    // The mesh may come from a preview at lower resolution; its grid is square either way
+    const rowLength = Math.round(Math.sqrt(terrainMesh.geometry.attributes.position.count));
+    exportTerrainModel(terrainMesh, contourLinesGroup, rowLength).then(({ blob, extension }) => {
+        downloadBlob(blob, `topographic-terrain.${extension}`);
+    }).catch(error => {
+        console.error('3D model export failed:', error);
+        alert(`3D model export failed: ${(error as Error).message}`);
+    });
+}
+
+// Saves a generated file through a temporary download link
+function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Exports a poster-size PNG laid out with the Print Export settings
+function exportPrintPNG(): void {
+    if (!scene || !renderer || isRecording()) return;
+    const source = getActiveHeightSource();
+    const details = `Contour interval ${formatElevation(source.toElevation(config.contourInterval) - source.toElevation(0))}`;
+
+    // The tiles render synchronously before the first await, so the background is back before the next frame
+    const background = scene.background;
+    if (config.printTransparent) scene.background = null;
+    const rendering = renderPrintPNG({ canvas: renderer.domElement, render: drawFrame }, renderer.capabilities.maxTextureSize, details);
+    scene.background = background;
+
+    rendering.then(blob => downloadBlob(blob, 'topographic-print.png')).catch(error => {
+        console.error('Print export failed:', error);
+        alert(`Print export failed: ${(error as Error).message}`);
+    });
+}
+
+// Main animation loop (stands back while a PNG sequence recording steps the frames itself)
 function animate(): void {
     requestAnimationFrame(animate);
+    if (isSteppingFrames()) return;
+    updateFrame(performance.now());
+    drawFrame();
+}
 
-    if (controls && controls.enabled && (config.enableRotate || config.enableVerticalRotate || config.enableZoom)) {
-         controls.update();
+// Advances everything animated to the given clock time (ms)
+function updateFrame(now: number): void {
+    frameTime = now;
+
+    // Capped so a backgrounded tab doesn't jump the breathing terrain on return
+    const deltaSeconds = Math.min(0.1, (now - lastFrameTime) / 1000);
+    lastFrameTime = now;
+
+    if (flythrough) {
+        updateFlythrough();
+    } else if (controls && controls.enabled && (config.enableRotate || config.enableVerticalRotate || config.enableZoom || config.autoRotate)) {
+        // With a time step the turntable turns at the same rate whatever the frame rate
+        controls.update(deltaSeconds);
     }
 
     if (contourLinesGroup && sceneCamera) {
@@ -307,69 +837,29 @@ function animate(): void {
         }
 
         // Visibility check for LINES_ONLY (remains the same)
-        if (config.style === Styles.LINES_ONLY &&
-            contourLinesGroup.userData.sharedMaterial instanceof THREE.LineBasicMaterial &&
-            contourLinesGroup.userData.sharedMaterial.vertexColors) {
+        if (config.style === Styles.LINES_ONLY && contourLinesGroup.userData.sharedMaterial) {
              if (!contourLinesGroup.visible) contourLinesGroup.visible = true;
         }
     }
 
-    // --- Wiggle animation for surrounding lines ---
-    if (hoveredPoint && contourLinesGroup) {
-        const time = performance.now() * 0.002; // speed factor
-        const amp = 13.0; // increased amplitude for stronger distortion
-        const coordFreq = 0.1; // base frequency for wave phase
-        const noiseFreq = 0.15; // frequency for pseudo noise
-        const falloff = 40; // radius of influence
-
-        contourLinesGroup.children.forEach(child => {
-            const line = child as THREE.LineSegments;
-            const geom = line.geometry as THREE.BufferGeometry;
-            const posAttr = geom.attributes.position as THREE.BufferAttribute;
-            if (!geom.userData.originalPositions) {
-                geom.userData.originalPositions = (posAttr.array as Float32Array).slice();
-            }
-            const original = geom.userData.originalPositions as Float32Array;
-
-            for (let i = 0; i < posAttr.count; i++) {
-                const ox = original[i * 3];
-                const oy = original[i * 3 + 1];
-                const oz = original[i * 3 + 2];
-
-                const dx = ox - hoveredPoint!.x;
-                const dz = oz - hoveredPoint!.z;
-                const distSq = dx * dx + dz * dz;
-                const influence = Math.exp(-distSq / (falloff * falloff));
-
-                const phase = (ox + oz) * coordFreq;
-                const wave = Math.sin(phase + time * 3.0);
-                // Simple pseudo-noise: product of sinusoid on x and z with different frequencies/time
-                const noise = Math.sin(ox * noiseFreq + time * 5.0) * Math.cos(oz * noiseFreq + time * 4.0);
-                const combined = (wave * 0.4 + noise * 0.6); // blend wave and noise
-                const offset = combined * amp * influence;
-
-                posAttr.setXYZ(i, ox, oy + offset, oz);
-            }
-            posAttr.needsUpdate = true;
-        });
-    } else if (contourLinesGroup) {
-        // Restore vertices to original positions when not hovering anything
-        contourLinesGroup.children.forEach(child => {
-            const line = child as THREE.LineSegments;
-            const geom = line.geometry as THREE.BufferGeometry;
-            const posAttr = geom.attributes.position as THREE.BufferAttribute;
-            if (!geom.userData.originalPositions) return;
-            const original = geom.userData.originalPositions as Float32Array;
-            for (let i = 0; i < posAttr.count; i++) {
-                posAttr.setXYZ(i, original[i * 3], original[i * 3 + 1], original[i * 3 + 2]);
-            }
-            posAttr.needsUpdate = true;
-        });
+    updateSculptStroke(deltaSeconds);
+    updateTerrainMorph();
+    updateBreathingTerrain(deltaSeconds);
+
+    // Auto-cycle waits for the previous landscape to settle; while off, the timer stays fresh
+    if (!config.autoCycle || terrainMorph || pendingTerrainGeometry) {
+        if (!config.autoCycle) lastCycleTime = now;
+    } else if (now - lastCycleTime > config.autoCycleInterval * 1000) {
+        generateNewTerrain();
     }
 
+    // Hover effects run in the line shaders; this only moves and fades them
+    updateHoverEffect(hoveredPoint, deltaSeconds);
+    updateProbe();
+
     // --- Hover Detection (per frame) ---
-    // Replace condition to only hover after movement
-    if (raycaster && contourLinesGroup && sceneCamera && hasMouseMoved) {
+    // Replace condition to only hover after movement; the inspector keeps the lines still
+    if (raycaster && contourLinesGroup && sceneCamera && hasPointer && !config.probeMode && config.hoverEffect !== HoverEffects.OFF) {
         raycaster.setFromCamera(mouse, sceneCamera);
         const intersects = raycaster.intersectObjects(contourLinesGroup.children, false);
 
@@ -381,19 +871,210 @@ function animate(): void {
     } else {
         hoveredPoint = null;
     }
+}
+
+// Probe heights are shown in the height source's units, like the contour labels
+function probeToElevation(height: number): number {
+    return getActiveHeightSource().toElevation(height);
+}
+
+// Inspector: probes under the cursor, highlights the level found and moves the tooltip and pins
+function updateProbe(): void {
+    if (sceneCamera) updateProbePins(sceneCamera);
+    if (!config.probeMode || !probeOnCanvas || !raycaster || !sceneCamera) {
+        if (probeResult) {
+            probeResult = null;
+            highlightContourLevel(null);
+            showProbeTooltip(null, 0, 0, probeToElevation);
+        }
+        probeDirty = true;
+        return;
+    }
 
-    if (renderer && scene && sceneCamera) {
-        renderer.render(scene, sceneCamera);
+    const geometry = terrainMesh ? terrainMesh.geometry : null;
+    const version = geometry ? (geometry.attributes.position as THREE.BufferAttribute).version : -1;
+    if (probeDirty || !sceneCamera.matrixWorld.equals(lastProbeCameraMatrix) || geometry !== lastProbeGeometry || version !== lastProbeVersion) {
+        probeDirty = false;
+        lastProbeCameraMatrix.copy(sceneCamera.matrixWorld);
+        lastProbeGeometry = geometry;
+        lastProbeVersion = version;
+        raycaster.setFromCamera(mouse, sceneCamera);
+        probeResult = probeScene(raycaster, terrainMesh, contourLinesGroup, probeToElevation);
     }
+    // Reapplied every frame: regenerated contours drop the highlight
+    highlightContourLevel(probeResult ? probeResult.level : null);
+    showProbeTooltip(probeResult, probeClient.x, probeClient.y, probeToElevation);
+}
+
+// Raycasts the terrain surface (hit even while hidden in the line styles) under the pointer
+function pickTerrainPoint(): THREE.Vector3 | null {
+    if (!terrainMesh || !raycaster || !sceneCamera) return null;
+    raycaster.setFromCamera(mouse, sceneCamera);
+    const hit = raycaster.intersectObject(terrainMesh, false)[0];
+    return hit ? hit.point : null;
+}
+
+// Starts a sculpt stroke when a tool is picked and the pointer is on the terrain
+function startSculptStroke(): void {
+    if (config.sculptTool === SculptTools.OFF || !terrainMesh || !terrainMesh.geometry.index) return;
+    if (pendingTerrainGeometry || flythrough || isRecording()) return;
+    const point = pickTerrainPoint();
+    if (!point) return;
+
+    // The stroke edits the heights on screen; late contours from older jobs would draw over it
+    cancelTerrainMorph();
+    cancelTerrainJob();
+    const geometry = terrainMesh.geometry;
+    beginSculptStroke(geometry, point);
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+    const options = getContourOptions();
+    const reusable = sculptTiles && sculptTiles.positions === positions.array && sculptTilesVersion === positions.version &&
+        (Object.keys(options) as (keyof ContourOptions)[]).every(key => sculptTiles!.options[key] === options[key]);
+    if (!reusable) {
+        const rowLength = Math.round(Math.sqrt(positions.count));
+        sculptTiles = createContourTiles(positions.array as Float32Array,
+            geometry.index!.array as Uint16Array | Uint32Array, rowLength - 1, options);
+    }
+    controls.enabled = false; // The drag sculpts instead of orbiting
+}
+
+// Applies the brush under the pointer and redraws the contours of the tiles it touched
+function updateSculptStroke(deltaSeconds: number): void {
+    if (!isSculpting() || !sculptTiles) return;
+    const point = pickTerrainPoint();
+    const bounds = point ? applySculptBrush(point, deltaSeconds) : null;
+    if (!bounds) return;
+    updateContourTiles(sculptTiles, bounds.minCol, bounds.minRow, bounds.maxCol, bounds.maxRow);
+    applyContourLines(getContourTilePolylines(sculptTiles));
+}
+
+// Ends the stroke, hands the pointer back to the camera and stitches the contours across tile edges
+function finishSculptStroke(): void {
+    if (!isSculpting()) return;
+    endSculptStroke();
+    if (terrainMesh) sculptTilesVersion = (terrainMesh.geometry.attributes.position as THREE.BufferAttribute).version;
+    controls.enabled = !flythrough;
+    requestTerrainUpdate();
+}
+
+function undoSculptStroke(): void {
+    if (terrainMesh && !pendingTerrainGeometry && undoSculpt(terrainMesh.geometry)) requestTerrainUpdate();
+}
+
+function redoSculptStroke(): void {
+    if (terrainMesh && !pendingTerrainGeometry && redoSculpt(terrainMesh.geometry)) requestTerrainUpdate();
+}
+
+// Renders the current frame; recordings can leave the background out, like Export PNG
+function drawFrame(): void {
+    if (!renderer || !scene || !sceneCamera) return;
+    const [width, height] = getViewportSize();
+    setContourLineResolution(width, height);
+    updateContourLabelRotations(getContourLabelsGroup(), sceneCamera, width, height);
+
+    const background = scene.background;
+    if (isRecordingTransparent()) scene.background = null;
+    renderer.render(scene, sceneCamera);
+    scene.background = background;
+}
+
+// Flythroughs and saved viewpoints are perspective views, so the map view is left first
+function leaveMapView(): void {
+    if (config.cameraMode !== CameraModes.MAP) return;
+    config.cameraMode = CameraModes.PERSPECTIVE;
+    setCameraMode(config.cameraMode);
+    updateGUI();
+}
+
+// Saves the current view as a named keyframe for flythroughs
+function saveCameraKeyframe(name: string): void {
+    if (!sceneCamera) return;
+    config.cameraKeyframes = [...config.cameraKeyframes, {
+        name: name.trim() || `View ${config.cameraKeyframes.length + 1}`,
+        position: sceneCamera.position.toArray(),
+        target: orbitTarget.toArray(),
+        fov: config.cameraFov
+    }];
+    scheduleSceneStateSave();
+}
+
+// Jumps to a saved viewpoint
+function goToCameraKeyframe(index: number): void {
+    const keyframe = config.cameraKeyframes[index];
+    if (!keyframe) return;
+    stopFlythrough();
+    leaveMapView();
+    config.cameraFov = keyframe.fov;
+    setCameraFov(keyframe.fov);
+    applyRestoredCamera({ position: keyframe.position, target: keyframe.target });
+    updateGUI();
+    scheduleSceneStateSave();
+}
+
+// Plays the flythrough through the saved viewpoints, or stops the one playing
+function toggleFlythrough(): void {
+    if (flythrough) {
+        stopFlythrough();
+        return;
+    }
+    if (config.cameraKeyframes.length < 2) {
+        alert('Save at least two viewpoints to fly through.');
+        return;
+    }
+    leaveMapView();
+    flythrough = createFlythrough(config.cameraKeyframes, config.flythroughDuration, config.flythroughLoop, config.flythroughEasing, frameTime);
+    controls.enabled = false;
+}
+
+// Hands the camera back to the orbit controls where the flight left it
+function stopFlythrough(): void {
+    if (!flythrough) return;
+    flythrough = null;
+    if (!isRecording() || !config.recordOrbit) controls.enabled = true;
+    if (sceneCamera instanceof THREE.PerspectiveCamera) config.cameraFov = sceneCamera.fov;
+    updateControls();
+    updateGUI();
+    scheduleSceneStateSave();
+}
+
+// Moves the camera along the flythrough path at the animation clock time
+function updateFlythrough(): void {
+    if (!flythrough || !sceneCamera) return;
+    setCameraFov(sampleFlythrough(flythrough, frameTime, sceneCamera.position, orbitTarget));
+    sceneCamera.lookAt(orbitTarget);
+    if (isFlythroughFinished(flythrough, frameTime)) stopFlythrough();
+}
+
+// Records the animation as WebM or a zipped PNG sequence with the Recording options, then downloads it
+function recordToFile(): void {
+    if (!renderer || isRecording()) return;
+    // The auto-orbit drives the camera, so user input is paused meanwhile
+    if (config.recordOrbit) controls.enabled = false;
+
+    recordAnimation({
+        canvas: renderer.domElement,
+        update: updateFrame,
+        settle: waitForTerrainJobs,
+        render: drawFrame
+    }, showRecordingProgress).then(({ blob, extension }) => {
+        downloadBlob(blob, `topographic-recording.${extension}`);
+    }).catch(error => {
+        console.error('Recording failed:', error);
+        alert(`Recording failed: ${(error as Error).message}`);
+    }).finally(() => {
+        // A flythrough may have ended during the recording; it keeps input off while it plays
+        controls.enabled = !flythrough;
+        showRecordingProgress(null);
+    });
 }
 
 function handleContourColorChange(value: string): void {
     baseContourColor.set(value);
-    // Update shader uniform if applicable
-    if (config.style === Styles.FADING_LINES && contourLinesGroup && contourLinesGroup.userData.sharedMaterial instanceof THREE.ShaderMaterial) {
+    // Update the shader's ramp texture if applicable (tinting replaces the flat colour)
+    if (config.style === Styles.FADING_LINES && !config.useColorRamp && contourLinesGroup && contourLinesGroup.userData.sharedMaterial instanceof THREE.ShaderMaterial) {
         const shaderMaterial = contourLinesGroup.userData.sharedMaterial;
-        if (shaderMaterial.uniforms.baseColor) {
-            shaderMaterial.uniforms.baseColor.value = baseContourColor;
+        if (shaderMaterial.uniforms.u_colorRamp) {
+            writeColorRampTexture(shaderMaterial.uniforms.u_colorRamp.value, flatColorRamp(baseContourColor));
         }
     }
 }
@@ -407,8 +1088,10 @@ function handleBackgroundColorChange(value: string): void {
 
 // Updates relevant uniforms for the Fading Lines shader
 export function updateFadingLinesFogUniforms(): void {
-    if (config.style === Styles.FADING_LINES && contourLinesGroup && contourLinesGroup.userData.sharedMaterial instanceof THREE.ShaderMaterial) {
-        const shaderMaterial = contourLinesGroup.userData.sharedMaterial;
+    if (config.style !== Styles.FADING_LINES || !contourLinesGroup) return;
+    // Regular and index lines have separate materials with the same fade uniforms
+    for (const shaderMaterial of [contourLinesGroup.userData.sharedMaterial, contourLinesGroup.userData.indexMaterial]) {
+        if (!(shaderMaterial instanceof THREE.ShaderMaterial)) continue;
 
         // Update fog color uniform
         if (shaderMaterial.uniforms.u_fogColor) {
@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import { OBJExporter } from 'three/addons/exporters/OBJExporter.js';
+import { config, MeshExportFormats } from './config.js';
+import { ContourPolyline } from './contours.js';
+
+// 3D model exports of the terrain grid. glTF carries the surface plus the contour lines
+// as a separate node; STL and OBJ get a closed solid for 3D printing, with side walls
+// down to a flat base. All formats are scaled to config.meshSizeMm across, with the
+// vertical exaggeration applied and, optionally, heights snapped to contour steps.
+
+export interface MeshExportResult {
+    blob: Blob;
+    extension: string;
+}
+
+// Maps terrain heights to model heights in millimetres above the lowest point
+interface HeightMapping {
+    scale: number;              // Millimetres per world unit, horizontally
+    floor: number;              // Lowest (snapped) terrain height
+    toModel(height: number): number;
+}
+
+// Snaps a height down to its contour step, so terraces sit at the contour levels
+function terraceHeight(height: number): number {
+    const interval = config.contourInterval;
+    return interval > 0 ? Math.floor(height / interval + 1e-6) * interval : height;
+}
+
+function createHeightMapping(positions: ArrayLike<number>): HeightMapping {
+    const scale = config.meshSizeMm / config.terrainSize;
+    const snap = config.meshTerraces ? terraceHeight : (height: number) => height;
+    let floor = Infinity;
+    for (let i = 1; i < positions.length; i += 3) floor = Math.min(floor, snap(positions[i]));
+    return {
+        scale,
+        floor,
+        toModel: height => (snap(height) - floor) * scale * config.meshExaggeration
+    };
+}
+
+// Indexed closed solid in millimetres, Z up: the top grid, a wall along each edge and a
+// bottom fanned from its centre. Every edge is shared by exactly two triangles, and all
+// faces wind counter-clockwise seen from outside.
+function buildSolidGeometry(positions: ArrayLike<number>, rowLength: number): THREE.BufferGeometry {
+    const mapping = createHeightMapping(positions);
+    const half = config.terrainSize / 2;
+    const base = config.meshBaseMm;
+    const vertexCount = rowLength * rowLength;
+    const vertices: number[] = [];
+    const indices: number[] = [];
+
+    // Top surface; world z runs south, so model y (north) is its negation
+    for (let i = 0; i < vertexCount; i++) {
+        vertices.push(
+            (positions[i * 3] + half) * mapping.scale,
+            (half - positions[i * 3 + 2]) * mapping.scale,
+            base + mapping.toModel(positions[i * 3 + 1])
+        );
+    }
+    for (let row = 0; row < rowLength - 1; row++) {
+        for (let col = 0; col < rowLength - 1; col++) {
+            const a = row * rowLength + col, b = a + 1, c = a + rowLength, d = c + 1;
+            indices.push(a, c, b, b, c, d);
+        }
+    }
+
+    // Perimeter counter-clockwise from above, starting at the south-west corner
+    const last = rowLength - 1;
+    const ring: number[] = [];
+    for (let col = 0; col < last; col++) ring.push(last * rowLength + col);          // South edge, eastwards
+    for (let row = last; row > 0; row--) ring.push(row * rowLength + last);          // East edge, northwards
+    for (let col = last; col > 0; col--) ring.push(col);                             // North edge, westwards
+    for (let row = 0; row < last; row++) ring.push(row * rowLength);                 // West edge, southwards
+
+    const bottomStart = vertexCount;
+    for (const top of ring) vertices.push(vertices[top * 3], vertices[top * 3 + 1], 0);
+    const centre = bottomStart + ring.length;
+    const size = config.meshSizeMm;
+    vertices.push(size / 2, size / 2, 0);
+
+    for (let i = 0; i < ring.length; i++) {
+        const next = (i + 1) % ring.length;
+        const topA = ring[i], topB = ring[next];
+        const bottomA = bottomStart + i, bottomB = bottomStart + next;
+        indices.push(topA, bottomA, topB, topB, bottomA, bottomB);
+        indices.push(centre, bottomB, bottomA);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setIndex(indices);
+    return geometry;
+}
+
+// Surface and contour lines in metres, Y up and centred like the live scene
+function buildGLTFScene(terrain: THREE.Mesh, contourLines: THREE.Group): THREE.Group {
+    const source = terrain.geometry.attributes.position.array as Float32Array;
+    const mapping = createHeightMapping(source);
+    const metresPerUnit = mapping.scale / 1000;
+    const toMetres = (x: number, y: number, z: number): [number, number, number] =>
+        [x * metresPerUnit, mapping.toModel(y) / 1000, z * metresPerUnit];
+
+    const surface = new THREE.BufferGeometry();
+    const positions = new Float32Array(source.length);
+    for (let i = 0; i < source.length; i += 3) positions.set(toMetres(source[i], source[i + 1], source[i + 2]), i);
+    surface.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    if (terrain.geometry.index) surface.setIndex(terrain.geometry.index.clone());
+    surface.computeVertexNormals();
+
+    const group = new THREE.Group();
+    group.name = 'Topography';
+    const surfaceMesh = new THREE.Mesh(surface, new THREE.MeshStandardMaterial({ color: config.backgroundColor, roughness: 1 }));
+    surfaceMesh.name = 'Terrain';
+    group.add(surfaceMesh);
+
+    // Each stitched polyline becomes segment pairs at its level
+    const linePositions: number[] = [];
+    for (const child of contourLines.children) {
+        const polylines: ContourPolyline[] | undefined = child.userData.polylines;
+        if (!polylines) continue;
+        for (const { points, closed } of polylines) {
+            const count = points.length / 3;
+            const segments = closed ? count : count - 1;
+            for (let i = 0; i < segments; i++) {
+                const j = (i + 1) % count;
+                linePositions.push(...toMetres(points[i * 3], points[i * 3 + 1], points[i * 3 + 2]));
+                linePositions.push(...toMetres(points[j * 3], points[j * 3 + 1], points[j * 3 + 2]));
+            }
+        }
+    }
+    if (linePositions.length > 0) {
+        const lineGeometry = new THREE.BufferGeometry();
+        lineGeometry.setAttribute('position', new THREE.Float32BufferAttribute(linePositions, 3));
+        const lines = new THREE.LineSegments(lineGeometry, new THREE.LineBasicMaterial({ color: config.contourColor }));
+        lines.name = 'Contours';
+        group.add(lines);
+    }
+    return group;
+}
+
+// Releases the geometries and materials of a temporary export object
+function disposeObject(object: THREE.Object3D): void {
+    object.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+            child.geometry.dispose();
+            (child.material as THREE.Material).dispose();
+        }
+    });
+}
+
+// Exports the terrain in config.meshExportFormat
+export async function exportTerrainModel(terrain: THREE.Mesh, contourLines: THREE.Group, rowLength: number): Promise<MeshExportResult> {
+    if (config.meshExportFormat === MeshExportFormats.GLTF) {
+        const group = buildGLTFScene(terrain, contourLines);
+        try {
+            const glb = await new GLTFExporter().parseAsync(group, { binary: true });
+            return { blob: new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' }), extension: 'glb' };
+        } finally {
+            disposeObject(group);
+        }
+    }
+
+    const geometry = buildSolidGeometry(terrain.geometry.attributes.position.array as Float32Array, rowLength);
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial());
+    mesh.name = 'Terrain';
+    try {
+        if (config.meshExportFormat === MeshExportFormats.STL) {
+            const stl = new STLExporter().parse(mesh, { binary: true });
+            return { blob: new Blob([stl.buffer as ArrayBuffer], { type: 'model/stl' }), extension: 'stl' };
+        }
+        return { blob: new Blob([new OBJExporter().parse(mesh)], { type: 'model/obj' }), extension: 'obj' };
+    } finally {
+        disposeObject(mesh);
+    }
+}
@@ -0,0 +1,54 @@
+import * as THREE from 'three';
+
+// Smooth transition between two generated landscapes: the height grids and the
+// background/contour colours blend over the same eased timeline.
+
+export interface TerrainMorph {
+    from: Float32Array;            // Flat xyz grid of the outgoing terrain
+    to: Float32Array;              // Flat xyz grid of the incoming terrain (same layout)
+    fromBackground: THREE.Color;
+    toBackground: THREE.Color;
+    fromContour: THREE.Color;
+    toContour: THREE.Color;
+    startTime: number;             // Animation clock time (ms) when the morph began
+    duration: number;              // Milliseconds
+}
+
+export function createTerrainMorph(
+    from: Float32Array,
+    to: Float32Array,
+    fromColors: { background: string, contour: string },
+    toColors: { background: string, contour: string },
+    durationSeconds: number,
+    startTime: number = performance.now()
+): TerrainMorph {
+    return {
+        from: from.slice(),
+        to: to.slice(),
+        fromBackground: new THREE.Color(fromColors.background),
+        toBackground: new THREE.Color(toColors.background),
+        fromContour: new THREE.Color(fromColors.contour),
+        toContour: new THREE.Color(toColors.contour),
+        startTime,
+        duration: durationSeconds * 1000
+    };
+}
+
+// Eased progress from 0 to 1 (smoothstep, so the terrain starts and settles gently)
+export function getMorphProgress(morph: TerrainMorph, now: number = performance.now()): number {
+    const t = morph.duration > 0 ? THREE.MathUtils.clamp((now - morph.startTime) / morph.duration, 0, 1) : 1;
+    return t * t * (3 - 2 * t);
+}
+
+// Writes the blended heights into positions (x and z are shared by both grids)
+export function blendMorphHeights(morph: TerrainMorph, t: number, positions: Float32Array): void {
+    for (let i = 1; i < positions.length; i += 3) {
+        positions[i] = morph.from[i] + (morph.to[i] - morph.from[i]) * t;
+    }
+}
+
+// Blends the background and contour colours into the targets
+export function blendMorphColors(morph: TerrainMorph, t: number, background: THREE.Color, contour: THREE.Color): void {
+    background.lerpColors(morph.fromBackground, morph.toBackground, t);
+    contour.lerpColors(morph.fromContour, morph.toContour, t);
+}
@@ -0,0 +1,59 @@
+import { createSeededRandom } from './random.js';
+
+// Improved Perlin noise (https://cs.nyu.edu/~perlin/noise/) with a permutation
+// table shuffled from a seed, so every seed gives a different but repeatable field.
+// Same interface as three's ImprovedNoise, which only ships a fixed table.
+
+function fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(t: number, a: number, b: number): number {
+    return a + t * (b - a);
+}
+
+function grad(hash: number, x: number, y: number, z: number): number {
+    const h = hash & 15;
+    const u = h < 8 ? x : y, v = h < 4 ? y : h == 12 || h == 14 ? x : z;
+    return ((h & 1) == 0 ? u : -u) + ((h & 2) == 0 ? v : -v);
+}
+
+export class SeededNoise {
+    private readonly p = new Uint8Array(512);
+
+    constructor(seed: number) {
+        const rand = createSeededRandom(seed);
+        const perm = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) perm[i] = i;
+        // Fisher-Yates shuffle driven by the seeded generator
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(rand() * (i + 1));
+            const tmp = perm[i]; perm[i] = perm[j]; perm[j] = tmp;
+        }
+        for (let i = 0; i < 512; i++) this.p[i] = perm[i & 255];
+    }
+
+    noise(x: number, y: number, z: number): number {
+        const p = this.p;
+        const floorX = Math.floor(x), floorY = Math.floor(y), floorZ = Math.floor(z);
+        const X = floorX & 255, Y = floorY & 255, Z = floorZ & 255;
+
+        x -= floorX;
+        y -= floorY;
+        z -= floorZ;
+
+        const xMinus1 = x - 1, yMinus1 = y - 1, zMinus1 = z - 1;
+        const u = fade(x), v = fade(y), w = fade(z);
+
+        const A = p[X] + Y, AA = p[A] + Z, AB = p[A + 1] + Z, B = p[X + 1] + Y, BA = p[B] + Z, BB = p[B + 1] + Z;
+
+        return lerp(w, lerp(v, lerp(u, grad(p[AA], x, y, z),
+            grad(p[BA], xMinus1, y, z)),
+        lerp(u, grad(p[AB], x, yMinus1, z),
+            grad(p[BB], xMinus1, yMinus1, z))),
+        lerp(v, lerp(u, grad(p[AA + 1], x, y, zMinus1),
+            grad(p[BA + 1], xMinus1, y, zMinus1)),
+        lerp(u, grad(p[AB + 1], x, yMinus1, zMinus1),
+            grad(p[BB + 1], xMinus1, yMinus1, zMinus1))));
+    }
+}
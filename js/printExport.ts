@@ -0,0 +1,159 @@
+import { config, PrintSizeModes, PaperSizes } from './config.js';
+import { camera, setFixedRenderSize } from './scene.js';
+import { crc32 } from './zip.js';
+
+// Poster and print-size PNG export. The page is laid out from pixel or paper-and-DPI
+// settings, the map keeps the live view's aspect ratio and framing, and images larger
+// than the GPU can draw at once are rendered in tiles through a camera view offset.
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PrintLayout {
+    width: number;
+    height: number;
+    map: Rect;
+    titleBlock: Rect | null;
+}
+
+export interface PrintHooks {
+    canvas: HTMLCanvasElement;
+    // Draws the current state to the canvas at its current buffer size
+    render(): void;
+}
+
+// Largest tile rendered in one go; well inside every GPU's texture limit and memory budget
+const MAX_TILE_SIZE = 4096;
+// Largest page a 2D canvas can reliably hold (browsers cap the area around 2^28 pixels)
+const MAX_PAGE_PIXELS = 256 * 1024 * 1024;
+const MM_PER_INCH = 25.4;
+
+function mmToPixels(mm: number): number {
+    return Math.round(mm / MM_PER_INCH * config.printDpi);
+}
+
+// Page size, margins and title block from the print settings; the map is fitted into the
+// space left over at the given aspect ratio and centred in it
+export function getPrintLayout(viewAspect: number): PrintLayout {
+    let width: number, height: number;
+    if (config.printSizeMode === PrintSizeModes.PAPER) {
+        const [shortSide, longSide] = PaperSizes[config.printPaper];
+        const landscape = config.printOrientation === 'Landscape';
+        width = mmToPixels(landscape ? longSide : shortSide);
+        height = mmToPixels(landscape ? shortSide : longSide);
+    } else {
+        width = Math.round(config.printWidth);
+        height = Math.round(config.printHeight);
+    }
+
+    const margin = Math.min(mmToPixels(config.printMargin), Math.floor(Math.min(width, height) / 4));
+    const inner: Rect = { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 };
+
+    let titleBlock: Rect | null = null;
+    let area = inner;
+    if (config.printTitleBlock) {
+        const blockHeight = Math.round(Math.min(inner.width, inner.height) * 0.08);
+        const gap = Math.round(blockHeight * 0.25);
+        titleBlock = { x: inner.x, y: inner.y + inner.height - blockHeight, width: inner.width, height: blockHeight };
+        area = { ...inner, height: inner.height - blockHeight - gap };
+    }
+
+    const mapWidth = Math.round(Math.min(area.width, area.height * viewAspect));
+    const mapHeight = Math.round(mapWidth / viewAspect);
+    const map: Rect = {
+        x: area.x + Math.round((area.width - mapWidth) / 2),
+        y: area.y + Math.round((area.height - mapHeight) / 2),
+        width: mapWidth,
+        height: mapHeight
+    };
+    return { width, height, map, titleBlock };
+}
+
+// Renders the map into the page canvas tile by tile
+function renderMapTiles(page: CanvasRenderingContext2D, map: Rect, hooks: PrintHooks, maxTextureSize: number): void {
+    const tileSize = Math.min(MAX_TILE_SIZE, maxTextureSize);
+    const tileWidth = Math.min(tileSize, map.width);
+    const tileHeight = Math.min(tileSize, map.height);
+    setFixedRenderSize([tileWidth, tileHeight], [map.width, map.height]);
+    try {
+        for (let y = 0; y < map.height; y += tileHeight) {
+            for (let x = 0; x < map.width; x += tileWidth) {
+                // Edge tiles render full size; only the part inside the map is copied
+                camera.setViewOffset(map.width, map.height, x, y, tileWidth, tileHeight);
+                hooks.render();
+                const width = Math.min(tileWidth, map.width - x);
+                const height = Math.min(tileHeight, map.height - y);
+                page.drawImage(hooks.canvas, 0, 0, width, height, map.x + x, map.y + y, width, height);
+            }
+        }
+    } finally {
+        camera.clearViewOffset();
+        setFixedRenderSize(null);
+    }
+}
+
+// Title on the left, details on the right, over a rule the width of the block
+function drawTitleBlock(page: CanvasRenderingContext2D, block: Rect, title: string, details: string): void {
+    const color = config.contourColor;
+    const lineWidth = Math.max(1, Math.round(block.height * 0.03));
+    page.fillStyle = color;
+    page.fillRect(block.x, block.y, block.width, lineWidth);
+
+    const middle = block.y + lineWidth + (block.height - lineWidth) / 2;
+    page.textBaseline = 'middle';
+    page.font = `bold ${Math.round(block.height * 0.45)}px ${config.labelFont}`;
+    page.textAlign = 'left';
+    page.fillText(title, block.x, middle);
+    page.font = `${Math.round(block.height * 0.25)}px ${config.labelFont}`;
+    page.textAlign = 'right';
+    page.fillText(details, block.x + block.width, middle);
+}
+
+// Adds a pHYs chunk after the IHDR so print software picks up the DPI
+async function withPngDpi(blob: Blob, dpi: number): Promise<Blob> {
+    const png = new Uint8Array(await blob.arrayBuffer());
+    const ihdrEnd = 8 + 4 + 4 + 13 + 4; // Signature, then the IHDR's length, type, data and CRC
+    const pixelsPerMetre = Math.round(dpi / MM_PER_INCH * 1000);
+
+    const chunk = new Uint8Array(4 + 4 + 9 + 4);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // 'pHYs'
+    view.setUint32(8, pixelsPerMetre);
+    view.setUint32(12, pixelsPerMetre);
+    chunk[16] = 1; // Unit: metre
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    return new Blob([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)], { type: 'image/png' });
+}
+
+// Renders the page at print size and encodes it as a PNG carrying the DPI
+export async function renderPrintPNG(hooks: PrintHooks, maxTextureSize: number, details: string): Promise<Blob> {
+    const aspect = hooks.canvas.clientWidth / hooks.canvas.clientHeight;
+    const layout = getPrintLayout(aspect);
+    if (layout.map.width < 1 || layout.map.height < 1) throw new Error('The margins leave no room for the map');
+    if (layout.width * layout.height > MAX_PAGE_PIXELS) {
+        throw new Error(`${layout.width}×${layout.height} is more than the browser can hold in one image`);
+    }
+
+    const pageCanvas = document.createElement('canvas');
+    pageCanvas.width = layout.width;
+    pageCanvas.height = layout.height;
+    const page = pageCanvas.getContext('2d');
+    if (!page) throw new Error('Canvas 2D context unavailable');
+    if (!config.printTransparent) {
+        page.fillStyle = config.backgroundColor;
+        page.fillRect(0, 0, layout.width, layout.height);
+    }
+
+    renderMapTiles(page, layout.map, hooks, maxTextureSize);
+    if (layout.titleBlock) drawTitleBlock(page, layout.titleBlock, config.printTitle, details);
+
+    const blob = await new Promise<Blob | null>(resolve => pageCanvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the image');
+    return withPngDpi(blob, config.printDpi);
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { config } from './config.js';
+import { formatElevation } from './contourLabels.js';
+import { toProjected } from './dataExport.js';
+
+// Inspector probe: what lies under the cursor on the terrain surface or a contour line
+// (elevation, contour level, slope and aspect), shown in a tooltip at the cursor. Clicked
+// points are pinned as markers with their real-world coordinates, which follow the view.
+
+export interface ProbeResult {
+    point: THREE.Vector3;
+    height: number;             // Terrain height at the point
+    level: number | null;       // Contour level hit, or the nearest one between lines
+    onLine: boolean;            // Whether the ray hit the level's line itself
+    slope: number | null;       // Degrees from horizontal; null without a surface hit
+    aspect: number | null;      // Compass bearing (degrees) the slope faces; null when flat
+}
+
+interface ProbePin {
+    point: THREE.Vector3;
+    element: HTMLElement;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+// Gentler slopes (degrees) have no meaningful aspect
+const FLAT_SLOPE = 0.5;
+
+let tooltip: HTMLElement | null = null;
+const pins: ProbePin[] = [];
+const projected = new THREE.Vector3();
+
+// Contour level closest to a height among the levels drawn
+function nearestLevel(contourLines: THREE.Group, height: number): number | null {
+    let nearest: number | null = null;
+    for (const child of contourLines.children) {
+        const level: number = child.userData.height;
+        if (nearest === null || Math.abs(level - height) < Math.abs(nearest - height)) nearest = level;
+    }
+    return nearest;
+}
+
+// Slope and aspect of a surface normal, in real-world terms: heights through toElevation,
+// distances through config.metresPerUnit
+function slopeAndAspect(normal: THREE.Vector3, toElevation: (height: number) => number): { slope: number, aspect: number | null } {
+    const verticalScale = toElevation(1) - toElevation(0);
+    const horizontal = Math.hypot(normal.x, normal.z);
+    const gradient = horizontal / Math.max(normal.y, 1e-6) * verticalScale / config.metresPerUnit;
+    const slope = THREE.MathUtils.radToDeg(Math.atan(Math.abs(gradient)));
+    if (slope < FLAT_SLOPE) return { slope, aspect: null };
+    // The normal leans downhill; north is -z
+    const aspect = THREE.MathUtils.radToDeg(Math.atan2(normal.x, -normal.z));
+    return { slope, aspect: (aspect + 360) % 360 };
+}
+
+// Casts the ray at the terrain surface and the contour lines. A line hit names its level;
+// the surface gives the slope and aspect, and lets points between lines be probed. The
+// terrain is tested even while hidden, as in the line styles.
+export function probeScene(
+    raycaster: THREE.Raycaster,
+    terrain: THREE.Mesh | null,
+    contourLines: THREE.Group,
+    toElevation: (height: number) => number
+): ProbeResult | null {
+    const surfaceHit = terrain ? raycaster.intersectObject(terrain, false)[0] : undefined;
+    const lineHit = raycaster.intersectObjects(contourLines.children, false)[0];
+    if (!surfaceHit && !lineHit) return null;
+
+    const point = (lineHit || surfaceHit)!.point.clone();
+    const height = lineHit ? lineHit.object.userData.height : point.y;
+    const { slope, aspect } = surfaceHit && surfaceHit.face
+        ? slopeAndAspect(surfaceHit.face.normal, toElevation)
+        : { slope: null, aspect: null };
+    return {
+        point,
+        height,
+        level: lineHit ? height : nearestLevel(contourLines, height),
+        onLine: !!lineHit,
+        slope,
+        aspect
+    };
+}
+
+function formatAspect(aspect: number | null): string {
+    if (aspect === null) return 'Flat';
+    return `${Math.round(aspect)}° ${COMPASS_POINTS[Math.round(aspect / 45) % 8]}`;
+}
+
+// Easting/northing of a point, to the centimetre
+function formatCoordinates(point: THREE.Vector3): string {
+    const [easting, northing] = toProjected(point.x, point.z);
+    return `E ${easting.toFixed(2)}  N ${northing.toFixed(2)}`;
+}
+
+// Shows the readout next to the cursor (client pixels), or hides it for null
+export function showProbeTooltip(result: ProbeResult | null, x: number, y: number, toElevation: (height: number) => number): void {
+    if (!result) {
+        if (tooltip) tooltip.style.display = 'none';
+        return;
+    }
+    if (!tooltip) {
+        tooltip = document.createElement('div');
+        tooltip.id = 'probe-tooltip';
+        document.body.appendChild(tooltip);
+    }
+
+    const lines = [`Elevation: ${formatElevation(toElevation(result.height))}`];
+    if (result.level !== null) {
+        lines.push(`${result.onLine ? 'Contour' : 'Nearest contour'}: ${formatElevation(toElevation(result.level))}`);
+    }
+    if (result.slope !== null) {
+        lines.push(`Slope: ${result.slope.toFixed(1)}°`);
+        lines.push(`Aspect: ${formatAspect(result.aspect)}`);
+    }
+    tooltip.textContent = lines.join('\n');
+    tooltip.style.left = `${x}px`;
+    tooltip.style.top = `${y}px`;
+    tooltip.style.display = 'block';
+}
+
+// Pins a marker at the probed point, labelled with its coordinates and elevation
+export function addProbePin(result: ProbeResult, toElevation: (height: number) => number): void {
+    const element = document.createElement('div');
+    element.className = 'probe-pin';
+    element.textContent = `${formatCoordinates(result.point)}\n${formatElevation(toElevation(result.height))}`;
+    document.body.appendChild(element);
+    pins.push({ point: result.point.clone(), element });
+}
+
+export function clearProbePins(): void {
+    for (const pin of pins) pin.element.remove();
+    pins.length = 0;
+}
+
+// Moves the pin markers to their points on screen; pins behind the camera are hidden
+export function updateProbePins(camera: THREE.Camera): void {
+    for (const pin of pins) {
+        projected.copy(pin.point).project(camera);
+        const visible = projected.z > -1 && projected.z < 1;
+        pin.element.style.display = visible ? 'block' : 'none';
+        if (!visible) continue;
+        pin.element.style.left = `${(projected.x + 1) / 2 * window.innerWidth}px`;
+        pin.element.style.top = `${(1 - projected.y) / 2 * window.innerHeight}px`;
+    }
+}
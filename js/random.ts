@@ -0,0 +1,30 @@
+// Seeded pseudo-random number generation shared by terrain, randomized settings and colours
+
+// Creates an independent mulberry32 generator returning floats in [0, 1)
+export function createSeededRandom(seed: number): () => number {
+    let s = seed >>> 0;
+    return () => {
+        s = (s + 0x6D2B79F5) >>> 0;
+        let t = s;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+let sharedRandom = createSeededRandom(0);
+
+// Resets the shared generator so the same seed replays the same sequence
+export function setRandomSeed(seed: number): void {
+    sharedRandom = createSeededRandom(seed);
+}
+
+// Returns the next float in [0, 1) from the shared seeded generator
+export function random(): number {
+    return sharedRandom();
+}
+
+// Picks a fresh seed; the only place that is intentionally not reproducible
+export function createRandomSeed(): number {
+    return Math.floor(Math.random() * 1000000000);
+}
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { config, RecordingFormats } from './config.js';
+import { camera, orbitTarget, setFixedRenderSize } from './scene.js';
+import { createZip, ZipEntry } from './zip.js';
+
+// Records the animated scene, either in real time to WebM through MediaRecorder or frame
+// by frame to a zipped PNG sequence. The sequence runs the animation clock on a fixed
+// timestep and waits for terrain work between frames, so it comes out the same however
+// long each frame takes to produce.
+
+export interface RecordingHooks {
+    canvas: HTMLCanvasElement;
+    // Advances the animation to the given clock time (ms)
+    update(time: number): void;
+    // Resolves once terrain work started by update() has been applied
+    settle(): Promise<void>;
+    // Draws the current state to the canvas
+    render(): void;
+}
+
+export interface RecordingResult {
+    blob: Blob;
+    extension: string;
+}
+
+interface ActiveRecording {
+    transparent: boolean;
+    stepping: boolean;      // PNG sequence: the recorder drives every frame
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+let activeRecording: ActiveRecording | null = null;
+
+export function isRecording(): boolean {
+    return activeRecording !== null;
+}
+
+// True while a PNG sequence drives the frames, so the render loop must stand back
+export function isSteppingFrames(): boolean {
+    return !!activeRecording && activeRecording.stepping;
+}
+
+// Whether rendered frames should leave the background out
+export function isRecordingTransparent(): boolean {
+    return !!activeRecording && activeRecording.transparent;
+}
+
+// Pixel size for config.recordResolution, or null to follow the window
+function getRecordingSize(): [number, number] | null {
+    if (config.recordResolution === 'Window') return null;
+    const [width, height] = config.recordResolution.split('x').map(Number);
+    return [width, height];
+}
+
+// Auto-orbit: turns the starting camera offset about the vertical axis through the orbit target
+function placeOrbitCamera(startOffset: THREE.Vector3, progress: number): void {
+    const angle = THREE.MathUtils.degToRad(config.recordOrbitDegrees) * progress;
+    camera.position.copy(startOffset).applyAxisAngle(UP, angle).add(orbitTarget);
+    camera.lookAt(orbitTarget);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode frame')), 'image/png');
+    });
+}
+
+// Renders each frame on a fixed timestep and zips them as frame_0000.png, frame_0001.png, ...
+async function recordPNGSequence(hooks: RecordingHooks, startOffset: THREE.Vector3, onProgress: (progress: number) => void): Promise<Blob> {
+    const frameCount = Math.max(1, Math.round(config.recordDuration * config.recordFps));
+    const frameMs = 1000 / config.recordFps;
+    const digits = Math.max(4, String(frameCount - 1).length);
+    const startTime = performance.now();
+    const entries: ZipEntry[] = [];
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        // A full orbit ends one step short of the start, so the sequence loops cleanly
+        if (config.recordOrbit) placeOrbitCamera(startOffset, frame / frameCount);
+        hooks.update(startTime + frame * frameMs);
+        await hooks.settle();
+        hooks.render();
+        const blob = await canvasToBlob(hooks.canvas);
+        entries.push({ name: `frame_${String(frame).padStart(digits, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+        onProgress((frame + 1) / frameCount);
+    }
+    return createZip(entries);
+}
+
+// Captures the canvas in real time while the render loop keeps drawing; this only moves
+// the camera and stops the recorder once the duration is up
+async function recordWebM(hooks: RecordingHooks, startOffset: THREE.Vector3, onProgress: (progress: number) => void): Promise<Blob> {
+    if (typeof MediaRecorder === 'undefined') throw new Error('This browser cannot record video (no MediaRecorder)');
+    const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const stream = hooks.canvas.captureStream(config.recordFps);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const duration = config.recordDuration * 1000;
+    const startTime = performance.now();
+    recorder.start();
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const progress = Math.min(1, (performance.now() - startTime) / duration);
+            if (config.recordOrbit) placeOrbitCamera(startOffset, progress);
+            onProgress(progress);
+            if (progress < 1) requestAnimationFrame(tick); else resolve();
+        };
+        requestAnimationFrame(tick);
+    });
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+// Records config.recordDuration seconds with the Recording options; resolves with the file
+export async function recordAnimation(hooks: RecordingHooks, onProgress: (progress: number) => void): Promise<RecordingResult> {
+    if (activeRecording) throw new Error('A recording is already in progress');
+    const stepping = config.recordFormat === RecordingFormats.PNG_SEQUENCE;
+    activeRecording = { transparent: config.recordTransparent, stepping };
+    setFixedRenderSize(getRecordingSize());
+    const startOffset = camera.position.clone().sub(orbitTarget);
+
+    try {
+        if (stepping) return { blob: await recordPNGSequence(hooks, startOffset, onProgress), extension: 'zip' };
+        return { blob: await recordWebM(hooks, startOffset, onProgress), extension: 'webm' };
+    } finally {
+        activeRecording = null;
+        setFixedRenderSize(null);
+    }
+}
@@ -1,28 +1,54 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { config } from './config.js';
+import { config, CameraModes } from './config.js';
 
 let scene: THREE.Scene;
-export let camera: THREE.PerspectiveCamera;
+// The active camera: the perspective orbit or the top-down orthographic map view
+export let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+let perspectiveCamera: THREE.PerspectiveCamera;
+let mapCamera: THREE.OrthographicCamera;
 let renderer: THREE.WebGLRenderer;
 let controls: OrbitControls;
+// Point the orbit controls circle around; restored from shared scene state
+export const orbitTarget = new THREE.Vector3(0, 0, 0);
+// Drawing buffer size while recording or exporting at a set resolution; null follows the window.
+// The frame size is the whole image, larger than the buffer when it is rendered in tiles.
+let fixedRenderSize: [number, number] | null = null;
+let fixedFrameSize: [number, number] = [1, 1];
+// Perspective camera offset from the target when the map view was entered; restored on leaving it
+const savedOrbitOffset = new THREE.Vector3();
+
+// How high above the target the map camera sits; well clear of the highest peak
+const MAP_CAMERA_HEIGHT_FACTOR = 2;
+const MAP_MIN_ZOOM = 0.5;
+const MAP_MAX_ZOOM = 40;
+
+// Half the world height the map camera shows at zoom 1 (the whole terrain, with a little room)
+function mapHalfHeight(): number {
+    return config.terrainSize * 0.55;
+}
 
 // Initializes Three.js scene with camera, renderer and orbit controls
-export function initScene(container: HTMLElement): { scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer, controls: OrbitControls } {
+export function initScene(container: HTMLElement): { scene: THREE.Scene, camera: THREE.PerspectiveCamera | THREE.OrthographicCamera, renderer: THREE.WebGLRenderer, controls: OrbitControls } {
     scene = new THREE.Scene();
     scene.background = new THREE.Color(config.backgroundColor);
     updateFog();
 
     const aspect = window.innerWidth / window.innerHeight;
-    camera = new THREE.PerspectiveCamera(65, aspect, 1, config.terrainSize * 2.5);
+    perspectiveCamera = new THREE.PerspectiveCamera(config.cameraFov, aspect, 1, config.terrainSize * 2.5);
     // Position camera at midpoint between min/max zoom distances
     const initialRadius = (config.minZoomDistance + config.maxZoomDistance) / 2;
-    camera.position.set(
+    perspectiveCamera.position.set(
         0,
         initialRadius * Math.cos(Math.PI / 3),
         initialRadius * Math.sin(Math.PI / 3)
     );
-    camera.lookAt(0, 0, 0);
+    perspectiveCamera.lookAt(0, 0, 0);
+    savedOrbitOffset.copy(perspectiveCamera.position);
+    camera = perspectiveCamera;
+
+    const halfHeight = mapHalfHeight();
+    mapCamera = new THREE.OrthographicCamera(-halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight, 1, config.terrainSize * 4);
 
     renderer = new THREE.WebGLRenderer({
         antialias: true,
@@ -35,7 +61,15 @@ export function initScene(container: HTMLElement): { scene: THREE.Scene, camera:
     container.appendChild(renderer.domElement);
 
     controls = new OrbitControls(camera, renderer.domElement);
-    updateControls();
+    // Panning moves the target, which is what shared links, saved viewpoints and the other view pick up
+    controls.addEventListener('change', () => {
+        orbitTarget.copy(controls.target);
+    });
+    if (config.cameraMode === CameraModes.MAP) {
+        setCameraMode(CameraModes.MAP);
+    } else {
+        updateControls();
+    }
 
     window.addEventListener('resize', onWindowResize, false);
 
@@ -46,6 +80,12 @@ export function initScene(container: HTMLElement): { scene: THREE.Scene, camera:
 export function updateFog(): void {
     if (!scene) return;
 
+    // Distance fog is meaningless looking straight down: every point is about equally far away
+    if (camera === mapCamera) {
+        scene.fog = null;
+        return;
+    }
+
     const intensity = config.fogIntensity;
     const bgColor = config.backgroundColor;
     const minDistance = config.minFadeDistance;
@@ -77,26 +117,109 @@ export function updateFog(): void {
 // Configures orbit controls based on current settings
 export function updateControls(): void {
     if (!controls) return;
-    controls.enableRotate = config.enableRotate;
+    // The map view pans with the left button and zooms towards the cursor instead of orbiting
+    const mapView = camera === mapCamera;
+    controls.enableRotate = config.enableRotate && !mapView;
     controls.enableZoom = config.enableZoom;
-    controls.enablePan = false;
+    controls.enablePan = mapView || config.enablePan;
+    // Turning a north-up map would only spin it, so the turntable is for the orbit view
+    controls.autoRotate = config.autoRotate && !mapView;
+    controls.autoRotateSpeed = config.autoRotateSpeed;
+    controls.zoomToCursor = mapView;
+    controls.mouseButtons.LEFT = mapView ? THREE.MOUSE.PAN : THREE.MOUSE.ROTATE;
+    controls.touches.ONE = mapView ? THREE.TOUCH.PAN : THREE.TOUCH.ROTATE;
+
+    // The map camera keeps its height; its zoom is limited instead
+    controls.minDistance = mapView ? 0 : config.minZoomDistance;
+    controls.maxDistance = mapView ? Infinity : config.maxZoomDistance;
+    controls.minZoom = MAP_MIN_ZOOM;
+    controls.maxZoom = MAP_MAX_ZOOM;
+
+    controls.minPolarAngle = mapView ? 0 : 0.5;
+    controls.maxPolarAngle = mapView ? 0 : Math.PI / 2.25 - config.cameraMinPitchAngle;
+
+    controls.target.copy(orbitTarget);
+    controls.update();
+}
 
-    controls.minDistance = config.minZoomDistance;
-    controls.maxDistance = config.maxZoomDistance;
+// Switches between the perspective orbit and the top-down map, keeping the framing: the
+// map shows the same height of ground at the target as the perspective view did, and back
+export function setCameraMode(mode: string): void {
+    const toMap = mode === CameraModes.MAP;
+    if (!controls || (camera === mapCamera) === toMap) return;
+    const halfFov = THREE.MathUtils.degToRad(perspectiveCamera.fov / 2);
+
+    if (toMap) {
+        savedOrbitOffset.copy(perspectiveCamera.position).sub(orbitTarget);
+        const visibleHalfHeight = savedOrbitOffset.length() * Math.tan(halfFov);
+        mapCamera.zoom = THREE.MathUtils.clamp(mapHalfHeight() / visibleHalfHeight, MAP_MIN_ZOOM, MAP_MAX_ZOOM);
+        // A hair south of straight overhead, so north stays up on screen
+        mapCamera.position.set(orbitTarget.x, orbitTarget.y + config.terrainSize * MAP_CAMERA_HEIGHT_FACTOR, orbitTarget.z + 1e-3);
+        camera = mapCamera;
+    } else {
+        const visibleHalfHeight = mapHalfHeight() / mapCamera.zoom;
+        const distance = THREE.MathUtils.clamp(visibleHalfHeight / Math.tan(halfFov), config.minZoomDistance, config.maxZoomDistance);
+        perspectiveCamera.position.copy(savedOrbitOffset).setLength(distance).add(orbitTarget);
+        camera = perspectiveCamera;
+    }
 
-    controls.minPolarAngle = 0.5;
-    controls.maxPolarAngle = Math.PI / 2.25 - config.cameraMinPitchAngle;
+    controls.object = camera;
+    onWindowResize();
+    updateControls();
+    updateFog();
+}
 
-    controls.target.set(0, 0, 0);
-    controls.update();
+// Sets the perspective camera's vertical field of view (degrees)
+export function setCameraFov(fov: number): void {
+    if (!perspectiveCamera) return;
+    perspectiveCamera.fov = fov;
+    perspectiveCamera.updateProjectionMatrix();
+}
+
+// Applies an aspect ratio to both cameras (the map camera widens its frustum instead)
+function setCameraAspect(aspect: number): void {
+    perspectiveCamera.aspect = aspect;
+    perspectiveCamera.updateProjectionMatrix();
+    const halfHeight = mapHalfHeight();
+    mapCamera.left = -halfHeight * aspect;
+    mapCamera.right = halfHeight * aspect;
+    mapCamera.top = halfHeight;
+    mapCamera.bottom = -halfHeight;
+    mapCamera.far = config.terrainSize * 4;
+    mapCamera.updateProjectionMatrix();
 }
 
 function onWindowResize(): void {
     if (!camera || !renderer) return;
-    const aspect = window.innerWidth / window.innerHeight;
-    camera.aspect = aspect;
-    camera.updateProjectionMatrix();
-    renderer.setSize(window.innerWidth, window.innerHeight);
+    if (fixedRenderSize) {
+        // The canvas keeps filling the window; only its drawing buffer has the fixed size
+        const [width, height] = fixedRenderSize;
+        setCameraAspect(fixedFrameSize[0] / fixedFrameSize[1]);
+        renderer.setPixelRatio(1);
+        renderer.setSize(width, height, false);
+    } else {
+        setCameraAspect(window.innerWidth / window.innerHeight);
+        renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        renderer.setSize(window.innerWidth, window.innerHeight);
+    }
+}
+
+// Renders at a fixed pixel size, or back at the window size with null. For tiled
+// rendering, frameSize is the whole image the buffer-sized tiles make up.
+export function setFixedRenderSize(size: [number, number] | null, frameSize: [number, number] | null = size): void {
+    fixedRenderSize = size;
+    if (frameSize) fixedFrameSize = frameSize;
+    onWindowResize();
+}
+
+// Viewport size that line widths and label angles are computed for. A fixed render size
+// is scaled by the on-screen canvas height over the frame height, so lines keep their look
+// relative to the frame.
+export function getViewportSize(): [number, number] {
+    const canvas = renderer.domElement;
+    if (!fixedRenderSize) return [canvas.clientWidth, canvas.clientHeight];
+    const scale = canvas.clientHeight / fixedFrameSize[1];
+    return [fixedRenderSize[0] * scale, fixedRenderSize[1] * scale];
 }
 
 export function disposeScene(): void {
@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import { config, baseConfig, randomRanges, Styles, LabelFonts, LabelUnits, ColorStop, ColorRampPresets, ShadeModes, TerrainPresets, RecordingFormats, RecordingResolutions, PrintSizeModes, PaperSizes, PaperOrientations, MeshExportFormats, CameraModes, CameraKeyframe, FlythroughEasings, HoverEffects, SculptTools } from './config.js';
+import { NoiseVariants } from './terrainHeights.js';
+
+// Serializes config, baseConfig, randomRanges and the camera into the URL hash
+// so a shared link rebuilds the exact same scene.
+
+const HASH_PREFIX = '#state=';
+
+type Settings = Record<string, number | string | boolean | ColorStop[] | CameraKeyframe[]>;
+
+interface CameraState {
+    position: [number, number, number];
+    target: [number, number, number];
+    zoom?: number;      // Map view only
+}
+
+// Sections restored field by field; each entry is validated against the live default
+const sections: { [name: string]: Settings } = { config, baseConfig, randomRanges };
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Accepted range of each numeric field: the GUI slider's bounds, or for fields without a
+// slider the range the app itself can set. Unlisted numbers only need to be finite.
+const NUMBER_RANGES: { [key: string]: [number, number] } = {
+    terrainSize: [100, 5000],
+    terrainSegments: [16, 512],
+    terrainMaxHeight: [20, 300],
+    noiseScale: [70, 200],
+    minTerrainHeightFactor: [0, 0.95],
+    plateauVolume: [0, 1],
+    noiseOctaves: [1, 8],
+    noiseLacunarity: [0.5, 4],
+    noiseGain: [0, 1],
+    warpStrength: [0, 2],
+    warpScale: [0.2, 5],
+    detailContrast: [0, 1],
+    modulationScale: [1, 10],
+    modulationMin: [0, 2],
+    modulationMax: [0, 2],
+    islandFalloff: [0, 1],
+    terraceSteps: [0, 12],
+    erosionDroplets: [1000, 200000],
+    erosionRain: [0.1, 4],
+    erosionStrength: [0, 1],
+    thermalPasses: [1, 100],
+    talusAngle: [10, 60],
+    contourInterval: [1, 50],
+    lineOpacity: [0, 1],
+    lineWidth: [0.5, 8],
+    indexContourPeriod: [0, 10],
+    indexContourOpacity: [0, 1],
+    indexLineWidth: [0.5, 8],
+    fillOpacity: [0, 1],
+    sunAzimuth: [0, 360],
+    sunAltitude: [1, 90],
+    shadeStrength: [0, 1],
+    labelSpacing: [100, 1000],
+    labelSize: [6, 40],
+    previewBudgetMs: [10, 200],
+    morphDuration: [0, 10],
+    autoCycleInterval: [5, 120],
+    breathingSpeed: [0, 0.5],
+    driftSpeed: [0, 40],
+    driftDirection: [0, 360],
+    breathingBudgetMs: [10, 200],
+    fogIntensity: [0, 1],
+    cameraFov: [20, 100],
+    autoRotateSpeed: [-10, 10],
+    flythroughDuration: [2, 120],
+    sculptRadius: [2, 150],
+    sculptStrength: [0.01, 1],
+    sculptFalloff: [0, 1],
+    hoverAmplitude: [0, 40],
+    hoverRadius: [5, 150],
+    hoverSpeed: [0, 5],
+    wiggleWaveFrequency: [0.01, 0.5],
+    wiggleNoiseFrequency: [0.01, 0.5],
+    rippleWavelength: [2, 100],
+    magneticStrength: [0, 0.95],
+    liftGlow: [0, 1],
+    printWidth: [256, 16384],
+    printHeight: [256, 16384],
+    printDpi: [72, 600],
+    printMargin: [0, 50],
+    metresPerUnit: [0.01, 1000],
+    meshSizeMm: [10, 1000],
+    meshExaggeration: [0.1, 10],
+    meshBaseMm: [0, 50],
+    recordDuration: [1, 60],
+    recordFps: [10, 60],
+    recordOrbitDegrees: [-720, 720]
+};
+
+// Encodes UTF-8 JSON as URL-safe base64
+function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+// Checks an incoming value against the type (and format) of the current default
+function isValidField(key: string, defaultValue: unknown, value: unknown): boolean {
+    if (Array.isArray(defaultValue)) {
+        const list = listFields[key];
+        return !!list && Array.isArray(value) && (value.length > 0 || list.allowEmpty) && value.every(list.isItem);
+    }
+    if (typeof value !== typeof defaultValue) return false;
+    if (typeof value === 'number') {
+        const range = NUMBER_RANGES[key];
+        return Number.isFinite(value) && (!range || (value >= range[0] && value <= range[1]));
+    }
+    if (typeof value === 'string') {
+        if (key === 'style') return Object.values(Styles).includes(value);
+        if (key === 'terrainPreset') return value === 'Custom' || value in TerrainPresets;
+        if (key === 'noiseVariant') return Object.values(NoiseVariants).includes(value);
+        if (key === 'shadeMode') return Object.values(ShadeModes).includes(value);
+        if (key === 'colorRamp') return value === 'Custom' || value in ColorRampPresets;
+        if (key === 'labelFont') return LabelFonts.includes(value);
+        if (key === 'labelUnits') return LabelUnits.includes(value);
+        if (key === 'recordFormat') return Object.values(RecordingFormats).includes(value);
+        if (key === 'recordResolution') return RecordingResolutions.includes(value);
+        if (key === 'printSizeMode') return Object.values(PrintSizeModes).includes(value);
+        if (key === 'printPaper') return value in PaperSizes;
+        if (key === 'printOrientation') return PaperOrientations.includes(value);
+        if (key === 'cameraMode') return Object.values(CameraModes).includes(value);
+        if (key === 'flythroughEasing') return Object.values(FlythroughEasings).includes(value);
+        if (key === 'hoverEffect') return Object.values(HoverEffects).includes(value);
+        if (key === 'sculptTool') return Object.values(SculptTools).includes(value);
+        if (key === 'meshExportFormat') return Object.values(MeshExportFormats).includes(value);
+        if (key.endsWith('Color')) return HEX_COLOR.test(value);
+    }
+    return true;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isColorStop(value: unknown): value is ColorStop {
+    const stop = value as ColorStop;
+    return !!stop && typeof stop === 'object' && typeof stop.position === 'number' && Number.isFinite(stop.position) &&
+        typeof stop.color === 'string' && HEX_COLOR.test(stop.color);
+}
+
+function isVector3(value: unknown): value is [number, number, number] {
+    return Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+function isCameraKeyframe(value: unknown): value is CameraKeyframe {
+    const keyframe = value as CameraKeyframe;
+    return !!keyframe && typeof keyframe === 'object' && typeof keyframe.name === 'string' &&
+        isVector3(keyframe.position) && isVector3(keyframe.target) &&
+        typeof keyframe.fov === 'number' && keyframe.fov > 0 && keyframe.fov < 180;
+}
+
+// List fields: how to check each item and copy it, so the GUI never edits objects shared
+// with the parsed state
+const listFields: { [key: string]: { isItem: (value: unknown) => boolean, copy: (item: unknown) => unknown, allowEmpty: boolean } } = {
+    colorRampStops: {
+        isItem: isColorStop,
+        copy: item => { const stop = item as ColorStop; return { position: stop.position, color: stop.color }; },
+        allowEmpty: false
+    },
+    cameraKeyframes: {
+        isItem: isCameraKeyframe,
+        copy: item => {
+            const keyframe = item as CameraKeyframe;
+            return { name: keyframe.name, position: [...keyframe.position], target: [...keyframe.target], fov: keyframe.fov };
+        },
+        allowEmpty: true
+    }
+};
+
+// Builds the hash fragment describing the current scene
+export function serializeSceneState(camera: THREE.Camera, target: THREE.Vector3): string {
+    const state: { [name: string]: unknown } = {};
+    for (const name in sections) state[name] = { ...sections[name] };
+    const cameraState: CameraState = {
+        position: camera.position.toArray() as [number, number, number],
+        target: target.toArray() as [number, number, number]
+    };
+    if (camera instanceof THREE.OrthographicCamera) cameraState.zoom = camera.zoom;
+    state.camera = cameraState;
+    return HASH_PREFIX + toBase64Url(JSON.stringify(state));
+}
+
+// Replaces the current URL hash without adding a history entry
+export function writeSceneStateToHash(camera: THREE.Camera, target: THREE.Vector3): void {
+    const hash = serializeSceneState(camera, target);
+    if (window.location.hash !== hash) {
+        history.replaceState(null, '', hash);
+    }
+}
+
+// Applies settings from the URL hash onto config/baseConfig/randomRanges.
+// Invalid or missing fields keep their defaults and are reported with a warning.
+// Returns whichever camera fields were valid, or null when there is no state at all.
+export function readSceneStateFromHash(hash: string = window.location.hash): Partial<CameraState> | null {
+    if (!hash.startsWith(HASH_PREFIX)) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+    } catch (error) {
+        console.warn('Ignoring unreadable scene state in URL hash:', error);
+        return null;
+    }
+    if (!isRecord(parsed)) {
+        console.warn('Ignoring scene state in URL hash: not an object.');
+        return null;
+    }
+    const state = parsed;
+
+    for (const name in sections) {
+        const target = sections[name];
+        const incoming = state[name];
+        if (!isRecord(incoming)) {
+            console.warn(`Scene state is missing "${name}", keeping defaults.`);
+            continue;
+        }
+        for (const key in target) {
+            const value = incoming[key];
+            if (!(key in incoming)) {
+                console.warn(`Scene state is missing ${name}.${key}, keeping default.`);
+            } else if (isValidField(key, target[key], value)) {
+                target[key] = (Array.isArray(value) ? value.map(listFields[key].copy) : value) as Settings[string];
+            } else {
+                console.warn(`Scene state has invalid ${name}.${key} (${JSON.stringify(value)}), keeping default.`);
+            }
+        }
+    }
+
+    // Camera position and orbit target fall back independently
+    const restored: Partial<CameraState> = {};
+    const camera = isRecord(state.camera) ? state.camera : {};
+    for (const key of ['position', 'target'] as const) {
+        const value = camera[key];
+        if (isVector3(value)) {
+            restored[key] = value;
+        } else {
+            console.warn(`Scene state has no valid camera.${key}, keeping default.`);
+        }
+    }
+    const zoom = camera.zoom;
+    if (typeof zoom === 'number' && zoom > 0 && Number.isFinite(zoom)) restored.zoom = zoom;
+    return restored;
+}
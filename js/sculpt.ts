@@ -0,0 +1,257 @@
+import * as THREE from 'three';
+import { config, SculptTools } from './config.js';
+import { SeededNoise } from './noise.js';
+
+// Sculpting brushes that edit the terrain mesh's height grid in place, with stroke-level
+// undo and redo. A stroke runs from pointer down to pointer up; the brush is applied every
+// frame in between, so holding it still keeps working. History only applies to the grid it
+// was recorded on and is dropped once the terrain is regenerated.
+
+export interface SculptBounds {
+    // Grid cells whose corners moved (inclusive)
+    minCol: number;
+    minRow: number;
+    maxCol: number;
+    maxRow: number;
+}
+
+interface SculptStroke {
+    tool: string;
+    before: Float32Array;       // Heights when the stroke began
+    flattenHeight: number;      // Height under the brush when the stroke began
+    noise: SeededNoise;
+}
+
+interface SculptEdit {
+    before: Float32Array;
+    after: Float32Array;
+}
+
+// Strokes kept for undo; each holds two copies of the height grid
+const MAX_HISTORY = 30;
+
+let activeGeometry: THREE.BufferGeometry | null = null;
+let activeStroke: SculptStroke | null = null;
+const undoStack: SculptEdit[] = [];
+const redoStack: SculptEdit[] = [];
+
+export function isSculpting(): boolean {
+    return activeStroke !== null;
+}
+
+function readHeights(positions: Float32Array): Float32Array {
+    const heights = new Float32Array(positions.length / 3);
+    for (let i = 0; i < heights.length; i++) heights[i] = positions[i * 3 + 1];
+    return heights;
+}
+
+// Writes heights back and refreshes what depends on them (normals, raycast bounds)
+function writeHeights(geometry: THREE.BufferGeometry, heights: Float32Array): void {
+    const positions = geometry.attributes.position.array as Float32Array;
+    for (let i = 0; i < heights.length; i++) positions[i * 3 + 1] = heights[i];
+    refreshGeometry(geometry);
+}
+
+function refreshGeometry(geometry: THREE.BufferGeometry): void {
+    geometry.attributes.position.needsUpdate = true;
+    geometry.computeVertexNormals();
+    refreshBounds(geometry);
+}
+
+function refreshBounds(geometry: THREE.BufferGeometry): void {
+    geometry.computeBoundingSphere();
+    if (geometry.boundingBox) geometry.computeBoundingBox();
+}
+
+// Recomputes the normals of a block of grid vertices (inclusive) the way computeVertexNormals
+// does, summing the face normals of every triangle around each vertex, but only over the
+// cells that touch the block
+function updateBlockNormals(geometry: THREE.BufferGeometry, rowLength: number, minCol: number, minRow: number, maxCol: number, maxRow: number): void {
+    const positions = geometry.attributes.position.array as Float32Array;
+    const normalAttribute = geometry.attributes.normal as THREE.BufferAttribute;
+    const normals = normalAttribute.array as Float32Array;
+    const index = geometry.index!.array;
+    const segments = rowLength - 1;
+    const inBlock = (vertex: number) => {
+        const col = vertex % rowLength, row = Math.floor(vertex / rowLength);
+        return col >= minCol && col <= maxCol && row >= minRow && row <= maxRow;
+    };
+
+    for (let row = minRow; row <= maxRow; row++) {
+        normals.fill(0, (row * rowLength + minCol) * 3, (row * rowLength + maxCol + 1) * 3);
+    }
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    for (let row = Math.max(0, minRow - 1); row <= Math.min(segments - 1, maxRow); row++) {
+        for (let col = Math.max(0, minCol - 1); col <= Math.min(segments - 1, maxCol); col++) {
+            const cell = (row * segments + col) * 6;
+            for (let k = cell; k < cell + 6; k += 3) {
+                const ia = index[k], ib = index[k + 1], ic = index[k + 2];
+                a.fromArray(positions, ia * 3);
+                b.fromArray(positions, ib * 3);
+                c.fromArray(positions, ic * 3);
+                c.sub(b);
+                a.sub(b);
+                c.cross(a);
+                for (const vertex of [ia, ib, ic]) {
+                    if (!inBlock(vertex)) continue;
+                    normals[vertex * 3] += c.x;
+                    normals[vertex * 3 + 1] += c.y;
+                    normals[vertex * 3 + 2] += c.z;
+                }
+            }
+        }
+    }
+    for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+            const i = (row * rowLength + col) * 3;
+            const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]) || 1;
+            normals[i] /= length;
+            normals[i + 1] /= length;
+            normals[i + 2] /= length;
+        }
+    }
+    normalAttribute.needsUpdate = true;
+}
+
+// Brush weight at a distance from its centre: full strength inside, then a smooth fade
+// over the outer config.sculptFalloff share of the radius
+function brushWeight(distance: number): number {
+    const radius = config.sculptRadius;
+    if (distance >= radius) return 0;
+    const inner = radius * (1 - config.sculptFalloff);
+    if (distance <= inner) return 1;
+    const t = (radius - distance) / (radius - inner);
+    return t * t * (3 - 2 * t);
+}
+
+// History recorded on another grid (a regenerated terrain or a preview) no longer applies
+function useGeometry(geometry: THREE.BufferGeometry): void {
+    if (geometry === activeGeometry) return;
+    activeGeometry = geometry;
+    activeStroke = null;
+    undoStack.length = 0;
+    redoStack.length = 0;
+}
+
+// Starts a stroke with the current tool at a point on the terrain
+export function beginSculptStroke(geometry: THREE.BufferGeometry, point: THREE.Vector3): void {
+    useGeometry(geometry);
+    activeStroke = {
+        tool: config.sculptTool,
+        before: readHeights(geometry.attributes.position.array as Float32Array),
+        flattenHeight: point.y,
+        noise: new SeededNoise(config.seed)
+    };
+}
+
+// Applies the brush at a point for the given time; returns the cells it changed, if any
+export function applySculptBrush(point: THREE.Vector3, deltaSeconds: number): SculptBounds | null {
+    if (!activeStroke || !activeGeometry) return null;
+    const stroke = activeStroke;
+    const positions = activeGeometry.attributes.position.array as Float32Array;
+    const rowLength = Math.round(Math.sqrt(positions.length / 3));
+    const segments = rowLength - 1;
+    const half = config.terrainSize / 2;
+    const step = config.terrainSize / segments;
+    const radius = config.sculptRadius;
+
+    // Vertex range under the brush
+    const toGrid = (value: number) => (value + half) / step;
+    const minCol = Math.max(0, Math.floor(toGrid(point.x - radius)));
+    const maxCol = Math.min(segments, Math.ceil(toGrid(point.x + radius)));
+    const minRow = Math.max(0, Math.floor(toGrid(point.z - radius)));
+    const maxRow = Math.min(segments, Math.ceil(toGrid(point.z + radius)));
+    if (minCol > maxCol || minRow > maxRow) return null;
+
+    // Raise, lower and noise move up to strength × max height per second; smooth and
+    // flatten close that share of the gap to their target per eighth of a second
+    const rate = config.sculptStrength * config.terrainMaxHeight * deltaSeconds;
+    const blend = Math.min(1, config.sculptStrength * 8 * deltaSeconds);
+    const noiseScale = Math.max(radius / 3, 1e-3);
+
+    // Smoothing reads the neighbours as they were before this application
+    const source = stroke.tool === SculptTools.SMOOTH ? positions.slice() : positions;
+    const heightAt = (col: number, row: number) =>
+        source[(Math.min(segments, Math.max(0, row)) * rowLength + Math.min(segments, Math.max(0, col))) * 3 + 1];
+
+    let changed = false;
+    for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+            const i = (row * rowLength + col) * 3;
+            const weight = brushWeight(Math.hypot(positions[i] - point.x, positions[i + 2] - point.z));
+            if (weight <= 0) continue;
+            const height = positions[i + 1];
+            let next = height;
+            switch (stroke.tool) {
+                case SculptTools.RAISE:
+                    next = height + rate * weight;
+                    break;
+                case SculptTools.LOWER:
+                    next = height - rate * weight;
+                    break;
+                case SculptTools.SMOOTH: {
+                    const average = (heightAt(col - 1, row) + heightAt(col + 1, row) + heightAt(col, row - 1) + heightAt(col, row + 1)) / 4;
+                    next = height + (average - height) * blend * weight;
+                    break;
+                }
+                case SculptTools.FLATTEN:
+                    next = height + (stroke.flattenHeight - height) * blend * weight;
+                    break;
+                case SculptTools.NOISE:
+                    next = height + stroke.noise.noise(positions[i] / noiseScale, positions[i + 2] / noiseScale, 0.5) * rate * weight;
+                    break;
+            }
+            if (next !== height) {
+                positions[i + 1] = next;
+                changed = true;
+            }
+        }
+    }
+    if (!changed) return null;
+
+    // Only the block under the brush needs its normals redone
+    activeGeometry.attributes.position.needsUpdate = true;
+    updateBlockNormals(activeGeometry, rowLength, minCol, minRow, maxCol, maxRow);
+    refreshBounds(activeGeometry);
+    // Cells around the moved vertices
+    return {
+        minCol: Math.max(0, minCol - 1),
+        minRow: Math.max(0, minRow - 1),
+        maxCol: Math.min(segments - 1, maxCol),
+        maxRow: Math.min(segments - 1, maxRow)
+    };
+}
+
+// Finishes the stroke; returns whether it changed anything (and so went into the history)
+export function endSculptStroke(): boolean {
+    if (!activeStroke || !activeGeometry) return false;
+    const { before } = activeStroke;
+    activeStroke = null;
+    const after = readHeights(activeGeometry.attributes.position.array as Float32Array);
+    if (after.every((height, i) => height === before[i])) return false;
+
+    undoStack.push({ before, after });
+    if (undoStack.length > MAX_HISTORY) undoStack.shift();
+    redoStack.length = 0;
+    return true;
+}
+
+// Steps back one stroke on the geometry; returns whether there was one to undo
+export function undoSculpt(geometry: THREE.BufferGeometry): boolean {
+    useGeometry(geometry);
+    const edit = activeStroke ? undefined : undoStack.pop();
+    if (!edit) return false;
+    writeHeights(geometry, edit.before);
+    redoStack.push(edit);
+    return true;
+}
+
+// Reapplies the last undone stroke; returns whether there was one
+export function redoSculpt(geometry: THREE.BufferGeometry): boolean {
+    useGeometry(geometry);
+    const edit = activeStroke ? undefined : redoStack.pop();
+    if (!edit) return false;
+    writeHeights(geometry, edit.after);
+    undoStack.push(edit);
+    return true;
+}
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { config, Styles } from './config.js';
+import { isIndexContour } from './terrain.js';
+import { ContourPolyline } from './contours.js';
+import { ContourLabel, screenAngle } from './contourLabels.js';
+import { getContourLevelColor } from './colorRamps.js';
+
+// Builds an SVG document of the contour lines as seen through the current camera.
+// Each contour level becomes one <path> of the stitched polylines from contours.ts, with
+// its labels alongside. SVG strokes cannot vary per vertex, so the fading-lines edge fade
+// and scene fog become an opacity mask on the path: the lines again, split into a few
+// bands of flat opacity. Fading out over the background rectangle matches the on-screen
+// blend towards the background colour.
+
+const FADE_BANDS = 8;
+
+interface FadeParams {
+    color: THREE.Color;
+    background: THREE.Color;
+    opacity: number;
+    // Returns 0 (no fade) to 1 (fully faded into the background) for a world position
+    fadeAt: (p: THREE.Vector3) => number;
+    // Height-based alpha of a whole level (only the fading style uses it)
+    levelAlpha: (height: number) => number;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    if (edge0 === edge1) return x < edge0 ? 0 : 1;
+    const t = THREE.MathUtils.clamp((x - edge0) / (edge1 - edge0), 0, 1);
+    return t * t * (3 - 2 * t);
+}
+
+// Mirrors the fade logic of lineFadeFragment.glsl and three's linear scene fog
+function createFadeParams(camera: THREE.Camera, fog: THREE.Fog | null): FadeParams {
+    const color = new THREE.Color(config.contourColor);
+    const background = new THREE.Color(config.backgroundColor);
+
+    if (config.style === Styles.FADING_LINES) {
+        const halfSize = config.terrainSize / 2;
+        const fadeStart = halfSize * (1 - config.fogIntensity);
+        const minHeight = config.minTerrainHeightFactor * config.terrainMaxHeight;
+        const maxHeight = config.terrainMaxHeight;
+        return {
+            color, background, opacity: config.lineOpacity,
+            fadeAt: p => smoothstep(fadeStart, halfSize, Math.hypot(p.x, p.z)),
+            levelAlpha: h => smoothstep(minHeight, maxHeight, h)
+        };
+    }
+
+    const viewPosition = new THREE.Vector3();
+    return {
+        color, background, opacity: config.lineOpacity,
+        fadeAt: p => {
+            if (!fog) return 0;
+            const depth = -viewPosition.copy(p).applyMatrix4(camera.matrixWorldInverse).z;
+            return smoothstep(fog.near, fog.far, depth);
+        },
+        levelAlpha: () => 1
+    };
+}
+
+// Converts a stitched polyline to points, repeating the first one for closed loops
+function polylinePoints(polyline: ContourPolyline): THREE.Vector3[] {
+    const points: THREE.Vector3[] = [];
+    for (let i = 0; i < polyline.points.length; i += 3) {
+        points.push(new THREE.Vector3().fromArray(polyline.points, i));
+    }
+    if (polyline.closed && points.length > 0) points.push(points[0]);
+    return points;
+}
+
+function toHex(color: THREE.Color): string {
+    return `#${color.getHexString()}`;
+}
+
+// Creates the SVG markup for every contour level in the group
+export function buildContourSVG(
+    contourLinesGroup: THREE.Group,
+    camera: THREE.Camera,
+    fog: THREE.Fog | null,
+    width: number,
+    height: number
+): string {
+    camera.updateMatrixWorld();
+    const fade = createFadeParams(camera, fog);
+    const projected = new THREE.Vector3();
+    const bandColor = new THREE.Color();
+    const indexColor = new THREE.Color(config.indexContourColor);
+
+    const toScreen = (p: THREE.Vector3): [number, number] | null => {
+        projected.copy(p).project(camera);
+        if (projected.z < -1 || projected.z > 1) return null; // Behind the camera or clipped
+        return [(projected.x + 1) / 2 * width, (1 - projected.y) / 2 * height];
+    };
+
+    // Screen height of a world-space length at a point, from the camera's up vector
+    const cameraUp = new THREE.Vector3().setFromMatrixColumn(camera.matrixWorld, 1);
+    const screenSize = (p: THREE.Vector3, size: number): number => {
+        const a = toScreen(p), b = toScreen(p.clone().addScaledVector(cameraUp, size));
+        return a && b ? Math.hypot(b[0] - a[0], b[1] - a[1]) : 0;
+    };
+
+    // Text element for a label, faded like the line it sits on
+    const labelText = (label: ContourLabel): string => {
+        const position = new THREE.Vector3().fromArray(label.position);
+        const centre = toScreen(position);
+        const fontSize = screenSize(position, config.labelSize);
+        if (!centre || fontSize < 1) return '';
+        const isIndex = isIndexContour(label.level);
+        const k = fade.fadeAt(position);
+        const levelAlpha = fade.levelAlpha(label.level) * (isIndex ? config.indexContourOpacity : fade.opacity);
+        const alpha = config.style === Styles.FADING_LINES ? levelAlpha * (1 - k) : levelAlpha;
+        getContourLevelColor(label.level, isIndex ? indexColor : fade.color, bandColor).lerp(fade.background, k);
+        // SVG y points down, so the angle from the y-up projection is negated
+        const angle = -screenAngle(label, (x, y, z) => {
+            const p = toScreen(new THREE.Vector3(x, y, z)) || centre;
+            return [p[0], -p[1]];
+        }) * 180 / Math.PI;
+        const [x, y] = centre.map(v => v.toFixed(2));
+        return `      <text x="${x}" y="${y}" transform="rotate(${angle.toFixed(2)} ${x} ${y})" fill="${toHex(bandColor)}" fill-opacity="${alpha.toFixed(3)}" stroke="none" font-family="${config.labelFont}" font-size="${fontSize.toFixed(2)}" text-anchor="middle" dominant-baseline="central">${label.text}</text>`;
+    };
+
+    const levels = contourLinesGroup.children
+        .filter(child => child.userData.height !== undefined)
+        .sort((a, b) => a.userData.height - b.userData.height);
+
+    const groups: string[] = [];
+    for (const child of levels) {
+        // Polylines hold the undisplaced positions even while the hover effect wiggles the geometry;
+        // the drawn set has gaps under the labels
+        const polylines: ContourPolyline[] = child.userData.drawnPolylines || child.userData.polylines || [];
+        const labels: ContourLabel[] = child.userData.labels || [];
+        const level: number = child.userData.height;
+        const isIndex = isIndexContour(level);
+        const lineColor = getContourLevelColor(level, isIndex ? indexColor : fade.color);
+        const levelAlpha = fade.levelAlpha(level) * (isIndex ? config.indexContourOpacity : fade.opacity);
+        if (levelAlpha <= 0) continue;
+
+        // Path data of the whole level, and per fade band for the mask; band 0 is unfaded
+        let pathData = '';
+        const bandPaths: string[] = new Array(FADE_BANDS).fill('');
+        for (const line of polylines.map(polylinePoints)) {
+            // -1 means the next segment starts a new subpath
+            let currentBand = -1;
+            let connected = false;
+            for (let i = 1; i < line.length; i++) {
+                const a = toScreen(line[i - 1]);
+                const b = toScreen(line[i]);
+                if (!a || !b) { currentBand = -1; connected = false; continue; }
+                const start = `M${a[0].toFixed(2)} ${a[1].toFixed(2)}`;
+                const end = `L${b[0].toFixed(2)} ${b[1].toFixed(2)}`;
+                if (!connected) pathData += start;
+                pathData += end;
+                connected = true;
+
+                const k = (fade.fadeAt(line[i - 1]) + fade.fadeAt(line[i])) / 2;
+                const band = Math.min(FADE_BANDS - 1, Math.floor(k * FADE_BANDS));
+                if (band !== currentBand) {
+                    bandPaths[band] += start;
+                    currentBand = band;
+                }
+                bandPaths[band] += end;
+            }
+        }
+
+        const elements: string[] = [];
+        if (pathData) {
+            // Fading lines lose alpha with height; fog and the edge fade come from the mask
+            const id = `contour-${level}`;
+            const faded = bandPaths.some((d, band) => band > 0 && d);
+            if (faded) {
+                const maskPaths = bandPaths.map((d, band) =>
+                    d ? `        <path d="${d}" stroke-opacity="${(1 - band / FADE_BANDS).toFixed(3)}"/>` : '').filter(Boolean);
+                elements.push(`      <mask id="${id}-fade" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}" stroke="#ffffff">\n${maskPaths.join('\n')}\n      </mask>`);
+            }
+            const mask = faded ? ` mask="url(#${id}-fade)"` : '';
+            elements.push(`      <path d="${pathData}" stroke="${toHex(lineColor)}" stroke-opacity="${levelAlpha.toFixed(3)}"${mask}/>`);
+        }
+        elements.push(...labels.map(label => labelText(label)).filter(Boolean));
+
+        if (elements.length > 0) {
+            const indexAttributes = isIndex ? ` class="index" stroke-width="${config.indexLineWidth}"` : '';
+            groups.push(`    <g id="contour-${level}" data-elevation="${level}"${indexAttributes}>\n${elements.join('\n')}\n    </g>`);
+        }
+    }
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `  <rect width="100%" height="100%" fill="${toHex(fade.background)}"/>`,
+        `  <g fill="none" stroke-width="${config.lineWidth}" stroke-linecap="round" stroke-linejoin="round">`,
+        ...groups,
+        `  </g>`,
+        `</svg>`
+    ].join('\n');
+}
@@ -1,6 +1,15 @@
 import * as THREE from 'three';
-import { ImprovedNoise } from 'three/addons/math/ImprovedNoise.js';
-import { config, baseConfig, randomRanges, Styles } from './config.js';
+import { config, randomRanges, Styles, DEFAULT_MIN_TERRAIN_HEIGHT_FACTOR } from './config.js';
+import { LineSegments2 } from 'three/addons/lines/LineSegments2.js';
+import { LineSegmentsGeometry } from 'three/addons/lines/LineSegmentsGeometry.js';
+import { LineMaterial } from 'three/addons/lines/LineMaterial.js';
+import { polylinesToSegments, ContourPolyline, ContourOptions } from './contours.js';
+import { TerrainHeightParams } from './terrainHeights.js';
+import { ErosionParams } from './erosion.js';
+import { createColorRampTexture, writeColorRampTexture, flatColorRamp, getColorRampStops, getColorRampRange, getContourLevelColor } from './colorRamps.js';
+import { placeContourLabels, createLabelSprites, clearLabelSprites, formatElevation, ContourLabel } from './contourLabels.js';
+import { random } from './random.js';
+import { addHoverEffect } from './hoverEffects.js';
 
 // Import shaders as text (requires appropriate loader setup, e.g., vite-plugin-string)
 // OR load them asynchronously if not using a loader
@@ -13,59 +22,107 @@ import { camera } from './scene.js'; // Add .js // Assuming camera is exported f
 
 let terrainMesh: THREE.Mesh | null = null;
 const contourLinesGroup = new THREE.Group();
+const contourLabelsGroup = new THREE.Group(); // Kept apart so hover and raycasting only see lines
 let terrainBorder: THREE.Line | null = null;
-
-// Generates terrain mesh using Perlin noise with configurable parameters
-export function generateTerrain(): THREE.Mesh {
-    const geometry = new THREE.PlaneGeometry(config.terrainSize, config.terrainSize, config.terrainSegments, config.terrainSegments);
+// Level drawn in the probe highlight colour, and the material and draw order it is given back afterwards
+let highlightedLine: LineSegments2 | null = null;
+let highlightedLineMaterial: LineMaterial | null = null;
+let highlightedLineOrder = 0;
+let highlightMaterial: LineMaterial | null = null;
+
+// Creates the flat terrain grid; heights are filled in by generateTerrainHeights (usually in the worker).
+// Live previews pass a coarser segment count.
+export function createTerrainGeometry(segments: number = config.terrainSegments): THREE.PlaneGeometry {
+    const geometry = new THREE.PlaneGeometry(config.terrainSize, config.terrainSize, segments, segments);
     geometry.rotateX(-Math.PI / 2);
+    return geometry;
+}
 
-    const vertices = geometry.attributes.position.array as Float32Array;
-    const noise = new ImprovedNoise();
-    const noiseSeed = Math.random() * 100;
-
-    const currentMaxHeight = config.terrainMaxHeight;
-    const currentNoiseScale = config.noiseScale;
-    const currentMinHeightFactor = config.minTerrainHeightFactor;
-    const currentPlateauVolume = config.plateauVolume;
-
-    const plateauCutoffHeight = currentMaxHeight * (1 - currentPlateauVolume * 0.5);
-
-    for (let i = 0, j = 0; i < vertices.length; i++, j += 3) {
-        const x = vertices[j], z = vertices[j + 2];
-        const noise1 = noise.noise(x / currentNoiseScale, z / currentNoiseScale, noiseSeed);
-        const noise2 = noise.noise(
-            x / (currentNoiseScale * 1.2),
-            z / (currentNoiseScale * 1.2),
-            noiseSeed + 100
-        );
-        // Combine two noise layers for more natural terrain variation
-        const combinedNoise = (noise1 * 0.97) + (noise2 * 0.03);
-        const expNoise = (combinedNoise + 1) / 2;
-        const slopeFactor = 1 + Math.abs(noise1 - noise2) * 0.1;
-        // --- Additional low-frequency noise modulation for varied hill heights ---
-        //   A very low-frequency noise layer is used as a height multiplier so that
-        //   different regions of the terrain can have noticeably different maximum
-        //   heights (taller peaks, deeper valleys).
-        //   The value is mapped from [0,1] → [0.6, 1.4] to keep it within reasonable
-        //   bounds while still giving a dramatic difference.
-        const lowFreqNoise = (noise.noise(x / (currentNoiseScale * 3.0), z / (currentNoiseScale * 3.0), noiseSeed + 200) + 1) / 2; // 0-1
-        const heightVariation = THREE.MathUtils.lerp(0.6, 1.4, lowFreqNoise); // 0.6 → 1.4 multiplier
-        let finalHeight = expNoise * currentMaxHeight * slopeFactor;
-
-        // Apply the height variation multiplier
-        finalHeight *= heightVariation;
-
-        if (currentPlateauVolume > 0 && finalHeight > plateauCutoffHeight) {
-             finalHeight = plateauCutoffHeight + (finalHeight - plateauCutoffHeight) * (1 - currentPlateauVolume);
-        }
+// Moves the breathing terrain on by the given number of seconds at the configured speeds.
+// The offsets live in config so a shared link rebuilds the surface where it was paused.
+export function advanceTerrainAnimation(seconds: number): void {
+    config.breathingTime += seconds * config.breathingSpeed;
+    const direction = THREE.MathUtils.degToRad(config.driftDirection);
+    config.breathingDriftX += Math.cos(direction) * config.driftSpeed * seconds;
+    config.breathingDriftZ += Math.sin(direction) * config.driftSpeed * seconds;
+}
 
-        vertices[j + 1] = Math.max(
-            currentMinHeightFactor * currentMaxHeight,
-            finalHeight
-        );
-    }
+// Returns the breathing terrain to its starting point (new landscapes start there)
+export function resetTerrainAnimation(): void {
+    config.breathingTime = 0;
+    config.breathingDriftX = config.breathingDriftZ = 0;
+}
+
+// Collects the height generation settings from config
+export function getTerrainHeightParams(): TerrainHeightParams {
+    return {
+        seed: config.seed,
+        maxHeight: config.terrainMaxHeight,
+        noiseScale: config.noiseScale,
+        minHeightFactor: config.minTerrainHeightFactor,
+        plateauVolume: config.plateauVolume,
+        terrainSize: config.terrainSize,
+        noise: {
+            noiseOctaves: config.noiseOctaves,
+            noiseLacunarity: config.noiseLacunarity,
+            noiseGain: config.noiseGain,
+            noiseVariant: config.noiseVariant,
+            warpStrength: config.warpStrength,
+            warpScale: config.warpScale,
+            detailContrast: config.detailContrast,
+            modulationScale: config.modulationScale,
+            modulationMin: config.modulationMin,
+            modulationMax: config.modulationMax,
+            islandFalloff: config.islandFalloff,
+            terraceSteps: config.terraceSteps
+        },
+        time: config.breathingTime,
+        drift: [config.breathingDriftX, config.breathingDriftZ]
+    };
+}
+
+// Collects the erosion settings for a grid of the given resolution, or null when erosion is off.
+// Coarser grids (live previews) get proportionally fewer droplets and a smaller brush.
+export function getErosionParams(segments: number = config.terrainSegments): ErosionParams | null {
+    if (!config.hydraulicErosion && !config.thermalErosion) return null;
+    const scale = segments / config.terrainSegments;
+    return {
+        seed: config.seed,
+        maxHeight: config.terrainMaxHeight,
+        minHeight: config.minTerrainHeightFactor * config.terrainMaxHeight,
+        cellSize: config.terrainSize / segments,
+        hydraulic: config.hydraulicErosion,
+        droplets: Math.round(config.erosionDroplets * scale * scale),
+        rain: config.erosionRain,
+        strength: config.erosionStrength,
+        radius: Math.max(1, Math.round(3 * scale)),
+        thermal: config.thermalErosion,
+        thermalPasses: config.thermalPasses,
+        talusAngle: config.talusAngle
+    };
+}
+
+// Collects the contour extraction settings from config
+export function getContourOptions(): ContourOptions {
+    return {
+        interval: config.contourInterval,
+        maxHeight: config.terrainMaxHeight,
+        minHeightFactor: config.minTerrainHeightFactor
+    };
+}
+
+export function getContourLinesGroup(): THREE.Group {
+    return contourLinesGroup;
+}
+
+export function getContourLabelsGroup(): THREE.Group {
+    return contourLabelsGroup;
+}
+
+// Builds the terrain mesh around a geometry whose heights are already filled in
+export function generateTerrain(geometry: THREE.BufferGeometry): THREE.Mesh {
     geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
     geometry.attributes.position.needsUpdate = true;
 
     // --- use MeshBasicMaterial so colour shows without lights ---
@@ -99,174 +156,175 @@ export function generateTerrain(): THREE.Mesh {
     return terrainMesh;
 }
 
-// Generates contour lines by finding height intersections with terrain geometry
+// Swaps a new grid into the existing terrain mesh, keeping its material, for frequent updates
+// such as the breathing terrain. Returns null while there is no mesh yet.
+export function replaceTerrainGeometry(geometry: THREE.BufferGeometry): THREE.Mesh | null {
+    if (!terrainMesh) return null;
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+    terrainMesh.geometry.dispose();
+    terrainMesh.geometry = geometry;
+    return terrainMesh;
+}
+
+// Viewport size in CSS pixels, shared by every line material's resolution uniform
+const lineResolution = new THREE.Vector2(window.innerWidth, window.innerHeight);
+
+// Keeps screen-space line widths correct after the canvas is resized
+export function setContourLineResolution(width: number, height: number): void {
+    lineResolution.set(width, height);
+}
+
+// Creates or updates one of the group's line materials for the style. All styles draw
+// screen-space quads (LineMaterial); fading lines swap in the shaders from /shaders,
+// which add the height and edge fade on top of the same quad expansion. Both get the
+// hover effects (see hoverEffects.ts).
+function updateContourMaterial(key: 'sharedMaterial' | 'indexMaterial', style: string, color: THREE.Color, opacity: number, width: number): LineMaterial {
+    const fading = style === Styles.FADING_LINES;
+    let material = contourLinesGroup.userData[key] as LineMaterial | null;
+    // Dispose the previous material if switching between fading and plain lines
+    if (material && material.userData.fading !== fading) {
+        material.dispose();
+        material = null;
+    }
+
+    if (!material) {
+        material = new LineMaterial({ fog: !fading });
+        material.uniforms.resolution.value = lineResolution;
+        material.userData.fading = fading;
+        if (fading) {
+            material.vertexShader = lineFadeVertexShader;
+            material.fragmentShader = lineFadeFragmentShader;
+            const rampTexture = createColorRampTexture(flatColorRamp(color));
+            material.addEventListener('dispose', () => rampTexture.dispose());
+            Object.assign(material.uniforms, {
+                u_colorRamp: { value: rampTexture },
+                u_rampMin: { value: 0 },
+                u_rampMax: { value: 1 },
+                u_fogColor: { value: new THREE.Color() },
+                minFadeHeight: { value: 0 },
+                maxFadeHeight: { value: 0 },
+                u_opacity: { value: 1 },
+                u_edgeFadeIntensity: { value: 0 }, // Use fogIntensity for edge fade
+                u_terrainHalfSize: { value: 0 }
+            });
+        }
+        addHoverEffect(material);
+        contourLinesGroup.userData[key] = material;
+    }
+
+    material.linewidth = width;
+    const rampStops = getColorRampStops();
+    if (fading) {
+        // Line colours come from the ramp texture; without tinting it holds just the flat colour
+        const [rampMin, rampMax] = getColorRampRange();
+        writeColorRampTexture(material.uniforms.u_colorRamp.value, rampStops || flatColorRamp(color));
+        material.uniforms.u_rampMin.value = rampMin;
+        material.uniforms.u_rampMax.value = rampMax;
+        // Fade heights and uniforms for the edge fade shader
+        material.uniforms.u_fogColor.value.set(config.backgroundColor);
+        material.uniforms.minFadeHeight.value = config.minTerrainHeightFactor * config.terrainMaxHeight;
+        material.uniforms.maxFadeHeight.value = config.terrainMaxHeight;
+        material.uniforms.u_opacity.value = opacity;
+        material.uniforms.u_edgeFadeIntensity.value = config.fogIntensity;
+        material.uniforms.u_terrainHalfSize.value = config.terrainSize / 2.0;
+        material.transparent = true;
+        material.depthTest = true;
+        material.depthWrite = true; // Keep depth write for now
+    } else {
+        // With tinting on, each level's ramp colour is set per vertex (see generateContourLines)
+        if (material.vertexColors !== (rampStops !== null)) {
+            material.vertexColors = rampStops !== null;
+            material.needsUpdate = true;
+        }
+        material.color.set(rampStops ? 0xffffff : color);
+        material.opacity = opacity;
+        material.transparent = opacity < 1.0;
+        // *** Adjust depth testing for filled style to draw lines on top ***
+        material.depthTest = style !== Styles.FILLED_MOUNTAIN;
+        material.depthWrite = style !== Styles.FILLED_MOUNTAIN;
+    }
+    return material;
+}
+
+// Index contours are every Nth level counted from zero, like on printed topo maps
+export function isIndexContour(level: number): boolean {
+    const period = Math.round(config.indexContourPeriod);
+    if (period <= 0 || config.contourInterval <= 0) return false;
+    return Math.round(level / config.contourInterval) % period === 0;
+}
+
+// Builds contour line objects from extracted polylines (see contours.ts)
 export function generateContourLines(
-    geometry: THREE.BufferGeometry,
+    polylines: ContourPolyline[],
     baseContourColor: THREE.Color,
     lineOpacity: number,
-    style: string
+    style: string,
+    labelElevation: (level: number) => number = level => level
 ): THREE.Group {
+    highlightedLine = null; // Its line is about to be replaced
     while (contourLinesGroup.children.length > 0) {
-        const line = contourLinesGroup.children[0] as THREE.LineSegments;
+        const line = contourLinesGroup.children[0] as LineSegments2;
         if (line.geometry) line.geometry.dispose();
         contourLinesGroup.remove(line);
     }
+    clearLabelSprites(contourLabelsGroup);
 
     // Determine if lines should be generated (all styles require lines now)
     const shouldGenerateLines = true; // Lines are always generated now
 
     // --- Material Handling ---
-    let contourMaterial: THREE.Material | null = null;
-
-    // Use LineBasicMaterial for FILLED_MOUNTAIN and LINES_ONLY
-    if (style === Styles.LINES_ONLY || style === Styles.FILLED_MOUNTAIN) {
-        // Dispose previous shader material if switching
-        if (contourLinesGroup.userData.sharedMaterial && !(contourLinesGroup.userData.sharedMaterial instanceof THREE.LineBasicMaterial)) {
-             (contourLinesGroup.userData.sharedMaterial as THREE.Material).dispose();
-            contourLinesGroup.userData.sharedMaterial = null;
-        }
-        // Create or update LineBasicMaterial
-        if (!contourLinesGroup.userData.sharedMaterial) {
-            contourLinesGroup.userData.sharedMaterial = new THREE.LineBasicMaterial({
-                color: 0xffffff,
-                linewidth: 2,
-                vertexColors: true,
-                depthTest: true,
-                transparent: lineOpacity < 1.0,
-                opacity: lineOpacity,
-                depthWrite: true,
-             });
-        }
-        contourMaterial = contourLinesGroup.userData.sharedMaterial as THREE.LineBasicMaterial;
-        // Ensure material properties are correct
-        (contourMaterial as THREE.LineBasicMaterial).color.set(0xffffff);
-        (contourMaterial as THREE.LineBasicMaterial).vertexColors = true;
-        (contourMaterial as THREE.LineBasicMaterial).transparent = lineOpacity < 1.0;
-        (contourMaterial as THREE.LineBasicMaterial).opacity = lineOpacity;
-
-        // *** Adjust depth testing for filled style to draw lines on top ***
-        if (style === Styles.FILLED_MOUNTAIN) {
-             (contourMaterial as THREE.LineBasicMaterial).depthTest = false;
-             (contourMaterial as THREE.LineBasicMaterial).depthWrite = false;
-        } else {
-            (contourMaterial as THREE.LineBasicMaterial).depthTest = true;
-            (contourMaterial as THREE.LineBasicMaterial).depthWrite = true;
-        }
-
-    } else if (style === Styles.FADING_LINES) {
-        // Dispose previous basic material if switching
-        if (contourLinesGroup.userData.sharedMaterial && !(contourLinesGroup.userData.sharedMaterial instanceof THREE.ShaderMaterial)) {
-             (contourLinesGroup.userData.sharedMaterial as THREE.Material).dispose();
-            contourLinesGroup.userData.sharedMaterial = null;
-        }
-
-        // Define fade heights
-        const minHeight = config.minTerrainHeightFactor * config.terrainMaxHeight;
-        const maxHeight = config.terrainMaxHeight;
-
-        // Define uniforms for the edge fade shader
-        const uniforms = {
-            baseColor: { value: baseContourColor },
-            u_fogColor: { value: new THREE.Color(config.backgroundColor) },
-            minFadeHeight: { value: minHeight },
-            maxFadeHeight: { value: maxHeight },
-            u_opacity: { value: lineOpacity },
-            u_edgeFadeIntensity: { value: config.fogIntensity }, // Use fogIntensity for edge fade
-            u_terrainHalfSize: { value: config.terrainSize / 2.0 }
-        };
-
-        if (!contourLinesGroup.userData.sharedMaterial) {
-            contourLinesGroup.userData.sharedMaterial = new THREE.ShaderMaterial({
-                uniforms: uniforms,
-                vertexShader: lineFadeVertexShader,
-                fragmentShader: lineFadeFragmentShader,
-                transparent: true,
-                linewidth: 2,
-                depthTest: true,
-                depthWrite: true, // Keep depth write for now
-            });
-        } else {
-            // Update uniforms
-            const existingMaterial = contourLinesGroup.userData.sharedMaterial as THREE.ShaderMaterial;
-            existingMaterial.uniforms.baseColor.value = baseContourColor;
-            existingMaterial.uniforms.u_fogColor.value.set(config.backgroundColor);
-            existingMaterial.uniforms.minFadeHeight.value = minHeight;
-            existingMaterial.uniforms.maxFadeHeight.value = maxHeight;
-            existingMaterial.uniforms.u_opacity.value = lineOpacity;
-            existingMaterial.uniforms.u_edgeFadeIntensity.value = config.fogIntensity;
-            existingMaterial.uniforms.u_terrainHalfSize.value = config.terrainSize / 2.0;
-        }
-        contourMaterial = contourLinesGroup.userData.sharedMaterial as THREE.ShaderMaterial;
+    // Regular and index lines each get their own material so they can differ in width
+    const contourMaterial = updateContourMaterial('sharedMaterial', style, baseContourColor, lineOpacity, config.lineWidth);
+    const indexMaterial = updateContourMaterial('indexMaterial', style, new THREE.Color(config.indexContourColor),
+        config.indexContourOpacity, config.indexLineWidth);
+
+    contourLinesGroup.visible = true;
+
+    // Group the stitched polylines per level; rendering flattens them back into segment pairs
+    const lines: { [key: number]: ContourPolyline[] } = {};
+    for (const polyline of polylines) {
+        if (!lines[polyline.level]) lines[polyline.level] = [];
+        lines[polyline.level].push(polyline);
     }
 
-    if (!contourMaterial) {
-        console.error("Material not properly set for contour lines.");
-        contourLinesGroup.visible = false;
-        return contourLinesGroup;
-    }
-    contourLinesGroup.visible = true; // Ensure group is visible if material succeeded
-
-    const vertices = geometry.attributes.position.array as Float32Array;
-    const index = geometry.index ? geometry.index.array as Uint16Array | Uint32Array : null;
-    if (!index) { console.error("Geometry has no index buffer."); return new THREE.Group(); };
-    const lines: { [key: number]: { points: number[], colors: number[] } } = {};
-
-    function getIntersection(p1: THREE.Vector3, p2: THREE.Vector3, height: number): THREE.Vector3 | null {
-        const p1y = p1.y; const p2y = p2.y;
-        if ((p1y < height && p2y < height) || (p1y >= height && p2y >= height)) return null;
-        const t = (height - p1y) / (p2y - p1y);
-        return p1.clone().lerp(p2, t);
-    }
+    const indexColor = new THREE.Color(config.indexContourColor);
+    // When index contours are on, only they are labelled, as on printed maps
+    const labelIndexOnly = Math.round(config.indexContourPeriod) > 0;
+    const placedLabels: ContourLabel[] = [];
+    const rampStops = getColorRampStops();
 
-    const currentInterval = config.contourInterval;
-    const currentMaxHeight = config.terrainMaxHeight;
-    const currentMinHeightFactor = config.minTerrainHeightFactor;
-
-    for (let i = 0; i < index.length; i += 3) {
-        const i1 = index[i], i2 = index[i + 1], i3 = index[i + 2];
-        const v1 = new THREE.Vector3().fromBufferAttribute(geometry.attributes.position, i1);
-        const v2 = new THREE.Vector3().fromBufferAttribute(geometry.attributes.position, i2);
-        const v3 = new THREE.Vector3().fromBufferAttribute(geometry.attributes.position, i3);
-        const minY = Math.min(v1.y, v2.y, v3.y);
-        const maxY = Math.max(v1.y, v2.y, v3.y);
-
-        for (let h = Math.ceil(minY / currentInterval) * currentInterval; h <= maxY && h < currentMaxHeight; h += currentInterval) {
-             if (h < (currentMinHeightFactor * currentMaxHeight) && currentMinHeightFactor > 0) continue;
-             if (h <= 0 && currentInterval > 0) continue;
-
-            const intersections: THREE.Vector3[] = [];
-            const edge12 = getIntersection(v1, v2, h), edge23 = getIntersection(v2, v3, h), edge31 = getIntersection(v3, v1, h);
-            if (edge12) intersections.push(edge12); if (edge23) intersections.push(edge23); if (edge31) intersections.push(edge31);
-
-            if (intersections.length >= 2) {
-                if (!lines[h]) lines[h] = { points: [], colors: [] };
-                lines[h].points.push(intersections[0].x, intersections[0].y, intersections[0].z, intersections[1].x, intersections[1].y, intersections[1].z);
-                // Use the *current* baseContourColor for vertex colors when using LineBasicMaterial
-                const r = baseContourColor.r;
-                const g = baseContourColor.g;
-                const b = baseContourColor.b;
-                lines[h].colors.push(r, g, b, r, g, b);
-                 if (intersections.length === 3) {
-                     lines[h].points.push(intersections[1].x, intersections[1].y, intersections[1].z, intersections[2].x, intersections[2].y, intersections[2].z);
-                     lines[h].colors.push(r, g, b, r, g, b);
-                 }
-            }
+    for (const height in lines) {
+        const levelPolylines = lines[height];
+        const isIndex = isIndexContour(Number(height));
+
+        // Labels cut gaps into the lines they sit on
+        let drawnPolylines = levelPolylines;
+        let labels: ContourLabel[] = [];
+        if (config.showContourLabels && (isIndex || !labelIndexOnly)) {
+            const text = formatElevation(labelElevation(Number(height)));
+            ({ labels, polylines: drawnPolylines } = placeContourLabels(levelPolylines, Number(height), text, placedLabels));
+            const labelColor = getContourLevelColor(Number(height), isIndex ? indexColor : baseContourColor);
+            const sprites = createLabelSprites(labels, labelColor, isIndex ? config.indexContourOpacity : lineOpacity);
+            sprites.forEach(sprite => contourLabelsGroup.add(sprite));
         }
-    }
 
-    for (const height in lines) {
-        const levelData = lines[height];
-        if (levelData.points.length > 0) {
-            const lineGeometry = new THREE.BufferGeometry();
-            lineGeometry.setAttribute('position', new THREE.Float32BufferAttribute(levelData.points, 3));
-
-            // Set vertex colors only if using LineBasicMaterial with vertexColors=true
-            if (contourMaterial instanceof THREE.LineBasicMaterial && contourMaterial.vertexColors) {
-                lineGeometry.setAttribute('color', new THREE.Float32BufferAttribute(levelData.colors, 3));
+        const points = polylinesToSegments(drawnPolylines);
+        if (points.length > 0) {
+            const lineGeometry = new LineSegmentsGeometry();
+            lineGeometry.setPositions(points);
+            if (rampStops && style !== Styles.FADING_LINES) {
+                const levelColor = getContourLevelColor(Number(height), baseContourColor);
+                const colors = new Float32Array(points.length);
+                for (let i = 0; i < colors.length; i += 3) levelColor.toArray(colors, i);
+                lineGeometry.setColors(colors);
             }
-
-            lineGeometry.computeBoundingSphere();
-            const contourLine = new THREE.LineSegments(lineGeometry, contourMaterial);
+            const contourLine = new LineSegments2(lineGeometry, isIndex ? indexMaterial : contourMaterial);
+            contourLine.userData.height = Number(height); // Level elevation, used by exporters
+            contourLine.userData.isIndex = isIndex;
+            contourLine.userData.polylines = levelPolylines; // Ordered lines for export/labelling
+            contourLine.userData.drawnPolylines = drawnPolylines; // Same lines with gaps under labels
+            contourLine.userData.labels = labels;
             contourLine.renderOrder = (style === Styles.FILLED_MOUNTAIN) ? 1 : 0; // Use renderOrder as alternative/addition to depthTest
             contourLinesGroup.add(contourLine);
         }
@@ -274,6 +332,33 @@ export function generateContourLines(
     return contourLinesGroup;
 }
 
+// Draws every line of the level at the given height in config.probeHighlightColor, over
+// the other lines; null puts the highlighted level back to its own material
+export function highlightContourLevel(height: number | null): void {
+    const line = height === null ? null
+        : contourLinesGroup.children.find(child => child.userData.height === height) as LineSegments2 | undefined || null;
+    if (line !== highlightedLine) {
+        if (highlightedLine && highlightedLineMaterial) {
+            highlightedLine.material = highlightedLineMaterial;
+            highlightedLine.renderOrder = highlightedLineOrder;
+        }
+        highlightedLine = line;
+        highlightedLineMaterial = line ? line.material : null;
+        highlightedLineOrder = line ? line.renderOrder : 0;
+    }
+    if (!line) return;
+
+    if (!highlightMaterial) {
+        highlightMaterial = new LineMaterial({ fog: false });
+        highlightMaterial.uniforms.resolution.value = lineResolution;
+        highlightMaterial.depthTest = false;
+    }
+    highlightMaterial.color.set(config.probeHighlightColor);
+    highlightMaterial.linewidth = Math.max(config.lineWidth, config.indexLineWidth) + 2;
+    line.material = highlightMaterial;
+    line.renderOrder = 2;
+}
+
 // Creates a dashed border around the terrain perimeter
 export function createTerrainBorder(scene: THREE.Scene): THREE.Line {
     if (terrainBorder) {
@@ -298,23 +383,19 @@ export function createTerrainBorder(scene: THREE.Scene): THREE.Line {
     return terrainBorder;
 }
 
+// Randomizes terrain settings from the shared seeded generator (see random.ts)
 export function randomizeTerrainSettings(): void {
-    config.terrainMaxHeight = Math.random() * (300 - 20) + 20;
+    config.terrainMaxHeight = random() * (300 - 20) + 20;
 
-    config.noiseScale = Math.random() * (200 - 70) + 70;
+    config.noiseScale = random() * (200 - 70) + 70;
 
+    // Varies around the fixed default, not baseConfig, which keeps the last randomized value
     config.minTerrainHeightFactor = Math.max(0, Math.min(0.5,
-        baseConfig.minTerrainHeightFactor + (Math.random() - 0.5) * randomRanges.minHeightRange * 2));
-
-    config.plateauVolume = Math.random();
-
-    if (randomRanges.enableIntervalRandomization) {
-        config.contourInterval = Math.floor(Math.random() * 7) + 2;
-    }
+        DEFAULT_MIN_TERRAIN_HEIGHT_FACTOR + (random() - 0.5) * randomRanges.minHeightRange * 2));
 
-    config.plateauVolume = Math.random();
+    config.plateauVolume = random();
 
     if (randomRanges.enableIntervalRandomization) {
-        config.contourInterval = Math.floor(Math.random() * 7) + 2;
+        config.contourInterval = Math.floor(random() * 7) + 2;
     }
 }
\ No newline at end of file
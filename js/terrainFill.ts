@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { config, ShadeModes } from './config.js';
+import { createColorRampTexture, writeColorRampTexture, flatColorRamp, getColorRampStops, getColorRampRange } from './colorRamps.js';
+
+import terrainFillVertexShader from '../shaders/terrainFillVertex.glsl?raw';
+import terrainFillFragmentShader from '../shaders/terrainFillFragment.glsl?raw';
+
+// Fill material for the filled-mountain style: the contour colour or the elevation
+// ramp, optionally shaded by a sun (hillshade) or by slope angle, under scene fog.
+
+// Shade mode values as passed to the shader
+const SHADE_MODE_IDS: { [mode: string]: number } = {
+    [ShadeModes.OFF]: 0,
+    [ShadeModes.HILLSHADE]: 1,
+    [ShadeModes.SLOPE]: 2
+};
+
+// Unit vector pointing towards the sun; north is -Z, east is +X
+export function getSunDirection(target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const azimuth = THREE.MathUtils.degToRad(config.sunAzimuth);
+    const altitude = THREE.MathUtils.degToRad(config.sunAltitude);
+    return target.set(
+        Math.sin(azimuth) * Math.cos(altitude),
+        Math.sin(altitude),
+        -Math.cos(azimuth) * Math.cos(altitude)
+    );
+}
+
+// Creates or updates the fill material from config
+export function updateTerrainFillMaterial(material: THREE.ShaderMaterial | null, opacity: number): THREE.ShaderMaterial {
+    const stops = getColorRampStops() || flatColorRamp(config.contourColor);
+    if (!material) {
+        const texture = createColorRampTexture(stops);
+        material = new THREE.ShaderMaterial({
+            uniforms: THREE.UniformsUtils.merge([THREE.UniformsLib.fog, {
+                u_colorRamp: { value: null },
+                u_rampMin: { value: 0 },
+                u_rampMax: { value: 1 },
+                u_interval: { value: 0 },
+                u_stepped: { value: 0 },
+                u_opacity: { value: 1 },
+                u_shadeMode: { value: 0 },
+                u_sunDirection: { value: new THREE.Vector3() },
+                u_shadeStrength: { value: 0 }
+            }]),
+            vertexShader: terrainFillVertexShader,
+            fragmentShader: terrainFillFragmentShader,
+            transparent: true,
+            fog: true
+        });
+        material.uniforms.u_colorRamp.value = texture; // Set after merge, which would clone it
+        material.addEventListener('dispose', () => texture.dispose());
+    } else {
+        writeColorRampTexture(material.uniforms.u_colorRamp.value, stops);
+    }
+
+    const [min, max] = getColorRampRange();
+    material.uniforms.u_rampMin.value = min;
+    material.uniforms.u_rampMax.value = max;
+    material.uniforms.u_interval.value = config.contourInterval;
+    material.uniforms.u_stepped.value = config.colorRampStepped && config.useColorRamp ? 1 : 0;
+    material.uniforms.u_opacity.value = opacity;
+    material.uniforms.u_shadeMode.value = SHADE_MODE_IDS[config.shadeMode] || 0;
+    getSunDirection(material.uniforms.u_sunDirection.value);
+    material.uniforms.u_shadeStrength.value = config.shadeStrength;
+    return material;
+}
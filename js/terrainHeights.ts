@@ -0,0 +1,250 @@
+import { SeededNoise } from './noise.js';
+import { createSeededRandom } from './random.js';
+import { ProgressTask } from './incremental.js';
+
+// Height field generation, kept free of three.js so it can run inside the terrain worker
+
+export const NoiseVariants = {
+    STANDARD: 'Standard',
+    RIDGED: 'Ridged',   // Sharp crests where the noise crosses zero
+    BILLOW: 'Billow'    // Rounded domes with creased valleys
+};
+
+// Noise z slices of the layers that must stay independent of the octaves. The noise repeats
+// every 256 along z, where octave i reads slice 100 * i: 0, 100, 200, 44, 144, 244, 88 and 188
+// for the eight allowed. These negative offsets land in the gaps, 22 or more from any octave.
+const MODULATION_SLICE = -34;   // 222
+const WARP_X_SLICE = -90;       // 166
+const WARP_Z_SLICE = -134;      // 122
+
+// Settings of the fBm pipeline; field names match config so presets can be assigned directly
+export interface NoiseSettings {
+    noiseOctaves: number;
+    noiseLacunarity: number;    // Frequency multiplier per octave
+    noiseGain: number;          // Amplitude multiplier per octave
+    noiseVariant: string;       // One of NoiseVariants
+    warpStrength: number;       // Domain warp offset, in units of the feature size
+    warpScale: number;          // Warp noise wavelength relative to the feature size
+    detailContrast: number;     // Extra height where the first two octaves disagree
+    modulationScale: number;    // Wavelength of the regional height multiplier, relative to the feature size
+    modulationMin: number;      // Multiplier range of that regional modulation
+    modulationMax: number;
+    islandFalloff: number;      // 0 = none; otherwise how far in from the edge heights sink to the minimum
+    terraceSteps: number;       // 0 = none; otherwise number of flat terraces from base to peak
+}
+
+export interface TerrainHeightParams {
+    seed: number;
+    maxHeight: number;
+    noiseScale: number;
+    minHeightFactor: number;
+    plateauVolume: number;
+    terrainSize: number;
+    noise: NoiseSettings;
+    time: number;               // Offset along the noise's third axis; animating it makes the terrain breathe
+    drift: [number, number];    // World-space offset of the noise domain, so features flow across the map
+}
+
+// Elevation raster decoded from an imported file, row 0 = north edge
+export interface HeightRaster {
+    width: number;
+    height: number;
+    data: Float32Array;
+    min: number;
+    max: number;
+    cellSize: number | null;  // Ground distance per cell in the raster's units, when the format knows it
+}
+
+// Computes the value range, replacing no-data and non-finite cells with the minimum. The
+// no-data value is rounded to float32 like the samples, so e.g. GDAL's -3.40282346638529e+38 matches.
+export function createHeightRaster(width: number, height: number, data: Float32Array, noData: number, cellSize: number | null): HeightRaster {
+    let min = Infinity, max = -Infinity;
+    const noDataSample = Math.fround(noData);
+    const isValid = (v: number) => Number.isFinite(v) && v !== noDataSample;
+    for (let i = 0; i < data.length; i++) {
+        if (!isValid(data[i])) continue;
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+    }
+    if (min === Infinity) throw new Error('Elevation raster has no valid cells');
+    for (let i = 0; i < data.length; i++) {
+        if (!isValid(data[i])) data[i] = min;
+    }
+    return { width, height, data, min, max, cellSize };
+}
+
+// How the worker should fill the grid: procedural noise or an imported raster
+export type HeightSpec =
+    | { kind: 'noise'; params: TerrainHeightParams }
+    | { kind: 'raster'; raster: HeightRaster; minHeight: number; maxHeight: number; terrainSize: number };
+
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+}
+
+// Shapes one octave of Perlin noise for the variant, keeping the [-1, 1] range
+function shapeOctave(value: number, variant: string): number {
+    if (variant === NoiseVariants.RIDGED) {
+        const ridge = 1 - Math.abs(value);
+        return ridge * ridge * 2 - 1;
+    }
+    if (variant === NoiseVariants.BILLOW) return Math.abs(value) * 2 - 1;
+    return value;
+}
+
+// Writes fBm heights into the y component of flat xyz positions, yielding progress per row.
+// Stages: domain warp, octave sum, detail contrast, regional modulation, plateau,
+// terraces, island falloff, then the minimum height floor.
+export function* generateTerrainHeights(positions: Float32Array, params: TerrainHeightParams, rowLength: number): ProgressTask<void> {
+    // Both the permutation table and the sampling offset come from the seed
+    const noise = new SeededNoise(params.seed);
+    const noiseSeed = createSeededRandom(params.seed)() * 100;
+
+    const currentMaxHeight = params.maxHeight;
+    const currentNoiseScale = params.noiseScale;
+    const currentMinHeightFactor = params.minHeightFactor;
+    const currentPlateauVolume = params.plateauVolume;
+    const settings = params.noise;
+    const octaves = Math.max(1, Math.round(settings.noiseOctaves));
+    const halfSize = params.terrainSize / 2;
+
+    const plateauCutoffHeight = currentMaxHeight * (1 - currentPlateauVolume * 0.5);
+
+    // Octave weights are normalised so the sum stays in [-1, 1]
+    let weightSum = 0;
+    for (let i = 0, weight = 1; i < octaves; i++, weight *= settings.noiseGain) weightSum += weight;
+
+    for (let j = 0; j < positions.length; j += 3) {
+        let x = positions[j] + params.drift[0], z = positions[j + 2] + params.drift[1];
+
+        if (settings.warpStrength > 0) {
+            const warpScale = currentNoiseScale * settings.warpScale;
+            const warpX = noise.noise(x / warpScale, z / warpScale, noiseSeed + WARP_X_SLICE);
+            const warpZ = noise.noise(x / warpScale, z / warpScale, noiseSeed + WARP_Z_SLICE);
+            x += warpX * settings.warpStrength * currentNoiseScale;
+            z += warpZ * settings.warpStrength * currentNoiseScale;
+        }
+
+        // Each octave samples its own z slice, 100 apart, shifted along by the animation time
+        let combinedNoise = 0;
+        let firstOctave = 0, secondOctave = 0;
+        for (let i = 0, frequency = 1, weight = 1; i < octaves; i++, frequency *= settings.noiseLacunarity, weight *= settings.noiseGain) {
+            const scale = currentNoiseScale / frequency;
+            const octave = shapeOctave(noise.noise(x / scale, z / scale, noiseSeed + 100 * i + params.time), settings.noiseVariant);
+            if (i === 0) firstOctave = octave;
+            if (i === 1) secondOctave = octave;
+            combinedNoise += octave * weight;
+        }
+        combinedNoise /= weightSum;
+
+        const expNoise = (combinedNoise + 1) / 2;
+        const slopeFactor = octaves > 1 ? 1 + Math.abs(firstOctave - secondOctave) * settings.detailContrast : 1;
+        // --- Additional low-frequency noise modulation for varied hill heights ---
+        //   A very low-frequency noise layer is used as a height multiplier so that
+        //   different regions of the terrain can have noticeably different maximum
+        //   heights (taller peaks, deeper valleys).
+        const modulationScale = currentNoiseScale * settings.modulationScale;
+        const lowFreqNoise = (noise.noise(x / modulationScale, z / modulationScale, noiseSeed + MODULATION_SLICE) + 1) / 2; // 0-1
+        const heightVariation = lerp(settings.modulationMin, settings.modulationMax, lowFreqNoise);
+        let finalHeight = expNoise * currentMaxHeight * slopeFactor;
+
+        // Apply the height variation multiplier
+        finalHeight *= heightVariation;
+
+        if (currentPlateauVolume > 0 && finalHeight > plateauCutoffHeight) {
+             finalHeight = plateauCutoffHeight + (finalHeight - plateauCutoffHeight) * (1 - currentPlateauVolume);
+        }
+
+        // Terraces: flat steps joined by short steep risers
+        if (settings.terraceSteps > 0) {
+            const steps = Math.round(settings.terraceSteps);
+            const stepped = Math.max(0, finalHeight / currentMaxHeight) * steps;
+            const riser = smoothstep(0.4, 0.6, stepped - Math.floor(stepped));
+            finalHeight = (Math.floor(stepped) + riser) / steps * currentMaxHeight;
+        }
+
+        // Island falloff: sink towards the minimum height near the terrain edge
+        if (settings.islandFalloff > 0) {
+            const distance = Math.hypot(positions[j], positions[j + 2]) / halfSize;
+            finalHeight *= 1 - smoothstep(1 - settings.islandFalloff, 1, distance);
+        }
+
+        positions[j + 1] = Math.max(
+            currentMinHeightFactor * currentMaxHeight,
+            finalHeight
+        );
+
+        if ((j / 3 + 1) % rowLength === 0) yield (j + 3) / positions.length;
+    }
+}
+
+// Resamples a raster onto the grid (bilinear), mapping its value range onto [minHeight, maxHeight].
+// Non-square rasters are centre-cropped so the terrain keeps the real aspect ratio.
+export function* resampleRasterHeights(
+    positions: Float32Array,
+    raster: HeightRaster,
+    minHeight: number,
+    maxHeight: number,
+    terrainSize: number,
+    rowLength: number
+): ProgressTask<void> {
+    const { width, height, data } = raster;
+    const side = Math.min(width, height);
+    const offsetX = (width - side) / 2;
+    const offsetY = (height - side) / 2;
+    const range = raster.max - raster.min;
+    const half = terrainSize / 2;
+
+    const sample = (px: number, py: number): number => {
+        const x = Math.max(0, Math.min(width - 1, px));
+        const y = Math.max(0, Math.min(height - 1, py));
+        const x0 = Math.floor(x), y0 = Math.floor(y);
+        const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+        const tx = x - x0, ty = y - y0;
+        const top = lerp(data[y0 * width + x0], data[y0 * width + x1], tx);
+        const bottom = lerp(data[y1 * width + x0], data[y1 * width + x1], tx);
+        return lerp(top, bottom, ty);
+    };
+
+    for (let j = 0; j < positions.length; j += 3) {
+        const u = (positions[j] + half) / terrainSize;
+        const v = (positions[j + 2] + half) / terrainSize;
+        const value = sample(offsetX + u * (side - 1), offsetY + v * (side - 1));
+        const t = range > 0 ? (value - raster.min) / range : 0;
+        positions[j + 1] = lerp(minHeight, maxHeight, t);
+
+        if ((j / 3 + 1) % rowLength === 0) yield (j + 3) / positions.length;
+    }
+}
+
+// Bilinearly samples another grid over the same terrain square onto the grid, e.g. the mesh on
+// screen onto a coarser preview grid
+export function sampleGridHeights(positions: Float32Array, source: ArrayLike<number>, terrainSize: number): void {
+    const sourceRowLength = Math.round(Math.sqrt(source.length / 3));
+    const last = sourceRowLength - 1;
+    const half = terrainSize / 2;
+    const heightAt = (col: number, row: number) => source[(row * sourceRowLength + col) * 3 + 1];
+
+    for (let j = 0; j < positions.length; j += 3) {
+        const x = Math.max(0, Math.min(last, (positions[j] + half) / terrainSize * last));
+        const z = Math.max(0, Math.min(last, (positions[j + 2] + half) / terrainSize * last));
+        const col0 = Math.floor(x), row0 = Math.floor(z);
+        const col1 = Math.min(last, col0 + 1), row1 = Math.min(last, row0 + 1);
+        const top = lerp(heightAt(col0, row0), heightAt(col1, row0), x - col0);
+        const bottom = lerp(heightAt(col0, row1), heightAt(col1, row1), x - col0);
+        positions[j + 1] = lerp(top, bottom, z - row0);
+    }
+}
+
+// Fills the grid from whichever height source the spec describes
+export function generateHeightsTask(positions: Float32Array, spec: HeightSpec, rowLength: number): ProgressTask<void> {
+    if (spec.kind === 'raster') {
+        return resampleRasterHeights(positions, spec.raster, spec.minHeight, spec.maxHeight, spec.terrainSize, rowLength);
+    }
+    return generateTerrainHeights(positions, spec.params, rowLength);
+}
@@ -0,0 +1,107 @@
+import { generateHeightsTask, HeightSpec } from './terrainHeights.js';
+import { extractContourPolylinesTask, ContourOptions, ContourPolyline } from './contours.js';
+import { erodeHeightsTask, ErosionParams } from './erosion.js';
+import { ProgressTask } from './incremental.js';
+
+// Runs terrain height generation and contour extraction off the main thread.
+// Protocol: the page posts a 'run' request (which supersedes any job in flight) or
+// a 'cancel'; the worker answers with 'progress' updates and then exactly one
+// 'result' or 'cancelled' per job. Typed arrays travel as transferables both ways.
+
+export interface TerrainJobRequest {
+    type: 'run';
+    id: number;
+    positions: Float32Array;               // Flat xyz grid, transferred in
+    index: Uint16Array | Uint32Array;
+    rowLength: number;                     // Vertices per grid row
+    heights: HeightSpec | null;            // null = keep the heights already in positions
+    erosion: ErosionParams | null;         // Applied after generated heights; null = no erosion
+    contours: ContourOptions;
+}
+
+export interface TerrainJobCancel {
+    type: 'cancel';
+    id: number;
+}
+
+export type TerrainWorkerRequest = TerrainJobRequest | TerrainJobCancel;
+
+export type TerrainWorkerResponse =
+    | { type: 'progress'; id: number; progress: number }
+    | { type: 'result'; id: number; positions: Float32Array; polylines: ContourPolyline[] }
+    | { type: 'cancelled'; id: number }
+    | { type: 'error'; id: number; message: string };
+
+const ctx = self as unknown as Worker;
+
+// Time spent computing before giving the message queue a chance to deliver a cancel
+const SLICE_MS = 12;
+
+let activeJobId: number | null = null;
+
+function yieldToMessages(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// Drives a task in time slices; returns undefined if the job was superseded or cancelled
+async function runSliced<T>(id: number, task: ProgressTask<T>, progressStart: number, progressSpan: number): Promise<T | undefined> {
+    let sliceStart = performance.now();
+    for (;;) {
+        const step = task.next();
+        if (step.done) return step.value;
+        if (performance.now() - sliceStart > SLICE_MS) {
+            ctx.postMessage({ type: 'progress', id, progress: progressStart + step.value * progressSpan } as TerrainWorkerResponse);
+            await yieldToMessages();
+            if (activeJobId !== id) return undefined;
+            sliceStart = performance.now();
+        }
+    }
+}
+
+async function runJob(request: TerrainJobRequest): Promise<void> {
+    const { id, positions } = request;
+    const erosion = request.heights ? request.erosion : null;
+    // Progress is split between the stages that run
+    const heightsSpan = request.heights ? (erosion ? 0.3 : 0.5) : 0;
+    const erosionSpan = erosion ? 0.4 : 0;
+    const contourStart = heightsSpan + erosionSpan;
+
+    if (request.heights) {
+        await runSliced(id, generateHeightsTask(positions, request.heights, request.rowLength), 0, heightsSpan);
+        if (activeJobId !== id) {
+            ctx.postMessage({ type: 'cancelled', id } as TerrainWorkerResponse);
+            return;
+        }
+    }
+
+    if (erosion) {
+        await runSliced(id, erodeHeightsTask(positions, request.rowLength, erosion), heightsSpan, erosionSpan);
+        if (activeJobId !== id) {
+            ctx.postMessage({ type: 'cancelled', id } as TerrainWorkerResponse);
+            return;
+        }
+    }
+
+    const polylines = await runSliced(id, extractContourPolylinesTask(positions, request.index, request.contours), contourStart, 1 - contourStart);
+    if (!polylines) {
+        ctx.postMessage({ type: 'cancelled', id } as TerrainWorkerResponse);
+        return;
+    }
+
+    activeJobId = null;
+    const transfer: Transferable[] = [positions.buffer, ...polylines.map(p => p.points.buffer)];
+    ctx.postMessage({ type: 'result', id, positions, polylines } as TerrainWorkerResponse, transfer);
+}
+
+ctx.onmessage = (event: MessageEvent<TerrainWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        if (activeJobId === request.id) activeJobId = null;
+        return;
+    }
+    activeJobId = request.id;
+    runJob(request).catch((error: Error) => {
+        if (activeJobId === request.id) activeJobId = null;
+        ctx.postMessage({ type: 'error', id: request.id, message: error.message } as TerrainWorkerResponse);
+    });
+};
@@ -0,0 +1,108 @@
+import type { TerrainJobRequest, TerrainWorkerRequest, TerrainWorkerResponse } from './terrainWorker.js';
+import type { HeightSpec } from './terrainHeights.js';
+import type { ContourOptions, ContourPolyline } from './contours.js';
+import type { ErosionParams } from './erosion.js';
+
+// Main-thread side of the terrain worker. Only one job runs at a time: starting a
+// new one cancels the job in flight, whose promise then resolves with null.
+
+export interface TerrainJob {
+    positions: Float32Array;
+    index: Uint16Array | Uint32Array;
+    rowLength: number;
+    heights: HeightSpec | null;
+    erosion: ErosionParams | null;
+    contours: ContourOptions;
+}
+
+export interface TerrainJobResult {
+    positions: Float32Array;
+    polylines: ContourPolyline[];
+}
+
+interface PendingJob {
+    id: number;
+    resolve: (result: TerrainJobResult | null) => void;
+    onProgress?: (progress: number) => void;
+    promise: Promise<TerrainJobResult | null>;
+}
+
+let worker: Worker | null = null;
+let pending: PendingJob | null = null;
+let nextJobId = 1;
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL('./terrainWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<TerrainWorkerResponse>) => handleResponse(event.data);
+        worker.onerror = (event: ErrorEvent) => {
+            console.error('Terrain worker failed:', event.message);
+            if (pending) {
+                pending.resolve(null);
+                pending = null;
+            }
+        };
+    }
+    return worker;
+}
+
+function handleResponse(response: TerrainWorkerResponse): void {
+    // Messages from superseded jobs can still arrive; ignore them
+    if (!pending || response.id !== pending.id) return;
+
+    switch (response.type) {
+        case 'progress':
+            if (pending.onProgress) pending.onProgress(response.progress);
+            break;
+        case 'result':
+            pending.resolve({ positions: response.positions, polylines: response.polylines });
+            pending = null;
+            break;
+        case 'cancelled':
+            pending.resolve(null);
+            pending = null;
+            break;
+        case 'error':
+            console.error('Terrain worker job failed:', response.message);
+            pending.resolve(null);
+            pending = null;
+            break;
+    }
+}
+
+// Cancels the job in flight, if any
+export function cancelTerrainJob(): void {
+    if (!pending) return;
+    getWorker().postMessage({ type: 'cancel', id: pending.id } as TerrainWorkerRequest);
+    pending.resolve(null);
+    pending = null;
+}
+
+// Generates heights (optional) and contours in the worker. The positions and index
+// are copied before being transferred, so the caller's geometry stays intact.
+export function runTerrainJob(job: TerrainJob, onProgress?: (progress: number) => void): Promise<TerrainJobResult | null> {
+    cancelTerrainJob();
+
+    const id = nextJobId++;
+    const request: TerrainJobRequest = {
+        type: 'run',
+        id,
+        positions: job.positions.slice(),
+        index: job.index.slice(),
+        rowLength: job.rowLength,
+        heights: job.heights,
+        erosion: job.erosion,
+        contours: job.contours
+    };
+
+    let resolve!: (result: TerrainJobResult | null) => void;
+    const promise = new Promise<TerrainJobResult | null>(r => { resolve = r; });
+    pending = { id, resolve, onProgress, promise };
+    getWorker().postMessage(request, [request.positions.buffer, request.index.buffer]);
+    return promise;
+}
+
+// Resolves once no job is in flight, including jobs started by the callers' result handlers
+export async function waitForTerrainJobs(): Promise<void> {
+    while (pending) await pending.promise;
+}
@@ -0,0 +1,87 @@
+// Minimal ZIP writer for bundling exported files in the browser. Entries are stored
+// uncompressed (PNG data is already compressed) with a fixed timestamp, so the same
+// files always produce the same archive.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 as used by ZIP and PNG
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date for 1980-01-01 00:00, the earliest a ZIP can record
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+// Builds a stored (uncompressed) ZIP archive from the entries
+export function createZip(entries: ZipEntry[]): Blob {
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);   // Local file header signature
+        local.setUint16(4, 20, true);           // Version needed (2.0)
+        local.setUint16(6, 0x0800, true);       // UTF-8 names
+        local.setUint16(8, 0, true);            // Stored
+        local.setUint16(10, DOS_TIME, true);
+        local.setUint16(12, DOS_DATE, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name, entry.data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);  // Central directory header signature
+        header.setUint16(4, 20, true);          // Version made by
+        header.setUint16(6, 20, true);          // Version needed
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, DOS_TIME, true);
+        header.setUint16(14, DOS_DATE, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);     // Offset of the local header
+        const record = new Uint8Array(46 + name.length);
+        record.set(new Uint8Array(header.buffer), 0);
+        record.set(name, 46);
+        central.push(record);
+
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);         // End of central directory signature
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
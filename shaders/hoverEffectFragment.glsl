@@ -0,0 +1,6 @@
+// shaders/hoverEffectFragment.glsl
+// Glow for the Lift & Glow hover effect; the weight comes from hoverEffectVertex.glsl
+
+uniform vec3 u_liftGlowColor;
+
+varying float vHoverGlow;
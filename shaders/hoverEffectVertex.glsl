@@ -0,0 +1,51 @@
+// shaders/hoverEffectVertex.glsl
+// Hover effects for the contour line vertex shaders (see js/hoverEffects.ts). Segment ends
+// are displaced by their distance to the hovered point before the quad is expanded, so the
+// lines stay unbroken and keep their screen-space width.
+
+uniform int u_hoverEffect;          // 0 off, 1 wiggle, 2 ripple rings, 3 magnetic pull, 4 lift & glow
+uniform vec3 u_hoverPoint;          // World-space point under the cursor
+uniform float u_hoverStrength;      // Eases from 0 to 1 as a hover starts, and back as it ends
+uniform float u_hoverTime;          // Seconds since the hover started
+uniform float u_hoverAmplitude;
+uniform float u_hoverRadius;
+uniform float u_hoverSpeed;
+uniform float u_wiggleWaveFrequency;
+uniform float u_wiggleNoiseFrequency;
+uniform float u_rippleWavelength;
+uniform float u_magneticStrength;
+uniform float u_liftGlow;
+
+varying float vHoverGlow;
+
+// Gaussian falloff in the XZ plane, scaled by the hover strength
+float hoverInfluence(vec3 p) {
+    vec2 d = p.xz - u_hoverPoint.xz;
+    return exp(-dot(d, d) / (u_hoverRadius * u_hoverRadius)) * u_hoverStrength;
+}
+
+vec3 applyHoverEffect(vec3 p) {
+    if (u_hoverEffect == 0 || u_hoverStrength <= 0.0) return p;
+    float influence = hoverInfluence(p);
+    float t = u_hoverTime * 2.0 * u_hoverSpeed;
+
+    if (u_hoverEffect == 1) {
+        // A travelling wave blended with a sine-product pseudo-noise
+        float wave = sin((p.x + p.z) * u_wiggleWaveFrequency + t * 3.0);
+        float noise = sin(p.x * u_wiggleNoiseFrequency + t * 5.0) * cos(p.z * u_wiggleNoiseFrequency + t * 4.0);
+        p.y += (wave * 0.4 + noise * 0.6) * u_hoverAmplitude * influence;
+    } else if (u_hoverEffect == 2) {
+        float dist = distance(p.xz, u_hoverPoint.xz);
+        p.y += sin((dist / u_rippleWavelength - t * 0.5) * 6.2831853) * u_hoverAmplitude * influence;
+    } else if (u_hoverEffect == 3) {
+        // Influence never exceeds 1, so lines bend towards the cursor without crossing it
+        p.xz += (u_hoverPoint.xz - p.xz) * u_magneticStrength * influence;
+    } else if (u_hoverEffect == 4) {
+        p.y += u_hoverAmplitude * influence;
+    }
+    return p;
+}
+
+float hoverGlow(vec3 p) {
+    return u_hoverEffect == 4 ? hoverInfluence(p) * u_liftGlow : 0.0;
+}
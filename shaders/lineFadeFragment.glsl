@@ -1,6 +1,8 @@
 // shaders/lineFadeFragment.glsl
 
-uniform vec3 baseColor;
+uniform sampler2D u_colorRamp; // Line colour by height (a single colour unless tinting is on)
+uniform float u_rampMin;
+uniform float u_rampMax;
 uniform vec3 u_fogColor;
 uniform float minFadeHeight; // Bottom height (fully faded)
 uniform float maxFadeHeight; // Top height (fully visible)
@@ -10,8 +12,15 @@ uniform float u_terrainHalfSize; // Half the width/depth of the terrain
 
 varying vec3 vWorldPosition;
 varying float vHeightRatio; // Currently unused but kept for potential future use
+varying vec2 vUv;           // Quad coordinates; |y| > 1 inside the end caps
 
 void main() {
+    // Round off the end caps
+    if (abs(vUv.y) > 1.0) {
+        float capY = (vUv.y > 0.0) ? vUv.y - 1.0 : vUv.y + 1.0;
+        if (vUv.x * vUv.x + capY * capY > 1.0) discard;
+    }
+
     // Height fade factor: 1 = opaque (at max height), 0 = transparent (at min height)
     float heightFadeFactor = smoothstep(minFadeHeight, maxFadeHeight, vWorldPosition.y);
 
@@ -31,8 +40,10 @@ void main() {
     // Calculate final alpha based on height and edge fade
     float finalAlpha = heightFadeFactor * u_opacity * (1.0 - edgeFadeFactor);
 
-    // Calculate final color (mix base color with fog color based on edge fade)
-    vec3 finalColor = mix(baseColor, u_fogColor, edgeFadeFactor);
+    // Look up the line colour for this height, then mix with fog color based on edge fade
+    float rampT = clamp((vWorldPosition.y - u_rampMin) / max(u_rampMax - u_rampMin, 1e-5), 0.0, 1.0);
+    vec3 lineColor = texture2D(u_colorRamp, vec2(rampT, 0.5)).rgb;
+    vec3 finalColor = mix(lineColor, u_fogColor, edgeFadeFactor);
 
     gl_FragColor = vec4(finalColor, finalAlpha);
 } 
\ No newline at end of file
@@ -1,16 +1,78 @@
 // shaders/lineFadeVertex.glsl
+// Screen-space thick lines: each segment is an instanced quad (see three's LineMaterial)
+// widened to `linewidth` pixels around the projected segment.
 
 uniform float minFadeHeight;
 uniform float maxFadeHeight;
+uniform float linewidth;  // Line width in CSS pixels
+uniform vec2 resolution;  // Viewport size in CSS pixels
+
+attribute vec3 instanceStart;
+attribute vec3 instanceEnd;
 
 varying vec3 vWorldPosition;
 varying float vHeightRatio;
+varying vec2 vUv;
+
+// Trims a segment that crosses the camera plane so it ends just in front of it
+void trimSegment(const in vec4 start, inout vec4 end) {
+    float a = projectionMatrix[2][2];
+    float b = projectionMatrix[3][2];
+    float nearEstimate = -0.5 * b / a;
+    float alpha = (nearEstimate - start.z) / (end.z - start.z);
+    end.xyz = mix(start.xyz, end.xyz, alpha);
+}
 
 void main() {
-    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vec3 linePosition = (position.y < 0.5) ? instanceStart : instanceEnd;
+    vec4 worldPosition = modelMatrix * vec4(linePosition, 1.0);
     vWorldPosition = worldPosition.xyz;
     vHeightRatio = smoothstep(minFadeHeight, maxFadeHeight, vWorldPosition.y);
+    vUv = uv;
+
+    float aspect = resolution.x / resolution.y;
+
+    // Camera space
+    vec4 start = modelViewMatrix * vec4(instanceStart, 1.0);
+    vec4 end = modelViewMatrix * vec4(instanceEnd, 1.0);
+
+    bool perspective = (projectionMatrix[2][3] == -1.0);
+    if (perspective) {
+        if (start.z < 0.0 && end.z >= 0.0) {
+            trimSegment(start, end);
+        } else if (end.z < 0.0 && start.z >= 0.0) {
+            trimSegment(end, start);
+        }
+    }
+
+    vec4 clipStart = projectionMatrix * start;
+    vec4 clipEnd = projectionMatrix * end;
+
+    // Segment direction in NDC, corrected for the aspect ratio
+    vec2 dir = clipEnd.xy / clipEnd.w - clipStart.xy / clipStart.w;
+    dir.x *= aspect;
+    dir = normalize(dir);
+
+    vec2 offset = vec2(dir.y, -dir.x);
+    dir.x /= aspect;
+    offset.x /= aspect;
+
+    // Sign flip for the two sides of the quad
+    if (position.x < 0.0) offset *= -1.0;
+
+    // Round end caps
+    if (position.y < 0.0) {
+        offset += -dir;
+    } else if (position.y > 1.0) {
+        offset += dir;
+    }
+
+    offset *= linewidth;
+    offset /= resolution.y;
+
+    vec4 clip = (position.y < 0.5) ? clipStart : clipEnd;
+    offset *= clip.w;
+    clip.xy += offset;
 
-    // Standard projection
-    gl_Position = projectionMatrix * viewMatrix * worldPosition;
-} 
\ No newline at end of file
+    gl_Position = clip;
+}
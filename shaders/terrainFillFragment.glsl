@@ -0,0 +1,43 @@
+// shaders/terrainFillFragment.glsl
+
+#include <common>
+#include <fog_pars_fragment>
+
+uniform sampler2D u_colorRamp; // Height-to-colour ramp, u = 0 at u_rampMin, 1 at u_rampMax
+uniform float u_rampMin;
+uniform float u_rampMax;
+uniform float u_interval;      // Contour interval, for stepped bands
+uniform float u_stepped;       // 1 = flat band per contour interval, 0 = smooth gradient
+uniform float u_opacity;
+uniform int u_shadeMode;       // 0 = none, 1 = hillshade, 2 = slope angle
+uniform vec3 u_sunDirection;   // Unit vector towards the sun
+uniform float u_shadeStrength; // How strongly the shade darkens the fill
+
+varying float vHeight;
+varying vec3 vWorldNormal;
+
+void main() {
+    // Stepped bands take the colour of the contour line at their lower edge
+    float height = vHeight;
+    if (u_stepped > 0.5 && u_interval > 0.0) {
+        height = floor(height / u_interval) * u_interval;
+    }
+    float t = clamp((height - u_rampMin) / max(u_rampMax - u_rampMin, 1e-5), 0.0, 1.0);
+    vec3 color = texture2D(u_colorRamp, vec2(t, 0.5)).rgb;
+
+    // Shade is multiplied over the fill: 1 = unchanged, 0 = black
+    vec3 normal = normalize(vWorldNormal);
+    float shade = 1.0;
+    if (u_shadeMode == 1) {
+        shade = clamp(dot(normal, u_sunDirection), 0.0, 1.0);
+    } else if (u_shadeMode == 2) {
+        // Flat ground stays bright, vertical faces go dark
+        shade = clamp(normal.y, 0.0, 1.0);
+    }
+    color *= mix(1.0, shade, u_shadeStrength);
+
+    gl_FragColor = vec4(color, u_opacity);
+
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+}
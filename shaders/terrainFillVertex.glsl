@@ -0,0 +1,18 @@
+// shaders/terrainFillVertex.glsl
+
+#include <common>
+#include <fog_pars_vertex>
+
+varying float vHeight;
+varying vec3 vWorldNormal;
+
+void main() {
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vHeight = worldPosition.y;
+    vWorldNormal = normalize(mat3(modelMatrix) * normal);
+
+    vec4 mvPosition = viewMatrix * worldPosition;
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+}